@@ -0,0 +1,222 @@
+/**
+ * ErrorMessage component implementation for terminal UI applications.
+ *
+ * This module provides the ErrorMessage component, a StatusMessage for thrown
+ * values. It renders the error message with its code, the full `cause` chain
+ * and the errors wrapped by an `AggregateError` as nested entries, and a
+ * stack trace that is collapsed by default.
+ *
+ * Key features:
+ * - Accepts any thrown value, not only `Error` instances
+ * - Shows error codes such as `ENOENT` next to the message
+ * - Renders `cause` chains and aggregated errors as indented entries in the
+ *   details of the StatusMessage, so they are filtered, dismissed and
+ *   annotated along with the message
+ * - Filters `node_modules` frames out of the stack trace
+ * - Styles every part through `statusMessageTheme.styles`
+ *
+ * @example
+ * ```tsx
+ * import { ErrorMessage } from "tinky-status-message";
+ *
+ * try {
+ *   await build();
+ * } catch (error) {
+ *   render(<ErrorMessage title="Build failed" error={error} />);
+ * }
+ * ```
+ *
+ * @see {@link ErrorMessageProps}
+ * @see {@link StatusMessage}
+ */
+
+import { type JSX, type ReactNode } from "react";
+import { Box, Text } from "tinky";
+import { type StyleObject, useComponentTheme } from "tinky-theme";
+import { useStatusMessageTranslate } from "../hooks/use-status-message-translate.js";
+import { type StatusMessageThemeProps } from "../themes/status-message-theme.js";
+import statusMessageTheme from "../themes/status-message-theme.js";
+import { type StatusMessageVariant } from "../types/status-message-types.js";
+import {
+  describeError,
+  type ErrorDescription,
+  formatErrorHeadline,
+} from "../utils/errors.js";
+import { type StatusMessageTranslate } from "../utils/messages.js";
+import { StatusMessage } from "./StatusMessage.js";
+
+/**
+ * Props for the ErrorMessage component.
+ */
+export interface ErrorMessageProps {
+  /**
+   * The thrown value to render, usually an `Error` or `AggregateError`.
+   */
+  readonly error: unknown;
+
+  /**
+   * Optional headline rendered bold on the icon row, above the error message.
+   */
+  readonly title?: ReactNode;
+
+  /**
+   * The status variant used for the message.
+   *
+   * @default "error"
+   */
+  readonly variant?: StatusMessageVariant;
+
+  /**
+   * Whether to expand the stack trace. When collapsed, only the number of
+   * frames is shown.
+   *
+   * @default false
+   */
+  readonly showStack?: boolean;
+
+  /**
+   * Returns whether a stack frame is shown. Frames from `node_modules` are
+   * filtered out by default.
+   */
+  readonly stackFilter?: (frame: string) => boolean;
+
+  /**
+   * Number of times the error was reported, rendered as `×N` when greater
+   * than one. Set by `StatusMessageGroup` when it collapses repeats.
+   */
+  readonly count?: number;
+}
+
+/**
+ * ErrorMessage component for rendering thrown values.
+ *
+ * @param {ErrorMessageProps} props - Component props
+ * @param {unknown} props.error - The thrown value to render
+ * @param {ReactNode} [props.title] - Optional bold headline on the icon row
+ * @param {StatusMessageVariant} [props.variant="error"] - Status variant
+ * @param {boolean} [props.showStack=false] - Whether to expand the stack trace
+ * @param {(frame: string) => boolean} [props.stackFilter] - Stack frame filter
+ * @param {number} [props.count] - Repeat count rendered as `×N`
+ *
+ * @returns {JSX.Element} The rendered error message
+ *
+ * Component structure:
+ * ```
+ * ✘ TypeError: Cannot read config [ENOENT]
+ *     Caused by: Error: open config.json
+ *       Caused by: ...
+ *     4 stack frames
+ * ```
+ *
+ * @see {@link ErrorMessageProps}
+ * @see {@link statusMessageTheme}
+ */
+export function ErrorMessage({
+  error,
+  title,
+  variant = "error",
+  showStack = false,
+  stackFilter,
+  count,
+}: ErrorMessageProps): JSX.Element {
+  const { styles } = useComponentTheme<StatusMessageThemeProps>(
+    "StatusMessage",
+    statusMessageTheme,
+    { variant },
+  );
+
+  const translate = useStatusMessageTranslate();
+  const description = describeError(error, { stackFilter });
+  const { frames } = description;
+  const hasDetails =
+    description.cause !== undefined ||
+    description.errors.length > 0 ||
+    frames.length > 0;
+
+  return (
+    <StatusMessage
+      variant={variant}
+      title={title}
+      count={count}
+      details={
+        hasDetails ? (
+          <Box {...styles.errorDetails}>
+            {renderNestedErrors(description, styles, translate)}
+
+            {frames.length > 0 &&
+              (showStack ? (
+                frames.map((frame, index) => (
+                  <Text key={index} {...styles.stackFrame}>
+                    at {frame}
+                  </Text>
+                ))
+              ) : (
+                <Text {...styles.stackSummary}>
+                  {translate("error.stackFrames", { count: frames.length })}
+                </Text>
+              ))}
+          </Box>
+        ) : undefined
+      }
+    >
+      {renderErrorHeadline(description, styles)}
+    </StatusMessage>
+  );
+}
+
+/**
+ * Renders the message and code of a described error.
+ *
+ * Rendered by a function rather than a component, so that the text stays
+ * readable by `toPlainText` for CI annotations.
+ *
+ * @private
+ */
+function renderErrorHeadline(
+  description: ErrorDescription,
+  styles: Record<string, StyleObject>,
+): JSX.Element {
+  return (
+    <Text>
+      {formatErrorHeadline(description)}
+      {description.code !== undefined && (
+        <Text {...styles.errorCode}> [{description.code}]</Text>
+      )}
+    </Text>
+  );
+}
+
+/**
+ * Renders the cause and aggregated errors of a described error as indented
+ * entries, recursively.
+ *
+ * @private
+ */
+function renderNestedErrors(
+  description: ErrorDescription,
+  styles: Record<string, StyleObject>,
+  translate: StatusMessageTranslate,
+): JSX.Element {
+  return (
+    <>
+      {description.cause !== undefined && (
+        <Box {...styles.errorCause}>
+          <Text>
+            <Text {...styles.errorCauseLabel}>
+              {translate("error.causedBy")}{" "}
+            </Text>
+            {renderErrorHeadline(description.cause, styles)}
+          </Text>
+          {renderNestedErrors(description.cause, styles, translate)}
+        </Box>
+      )}
+
+      {description.errors.map((inner, index) => (
+        <Box key={index} {...styles.errorCause}>
+          {renderErrorHeadline(inner, styles)}
+          {renderNestedErrors(inner, styles, translate)}
+        </Box>
+      ))}
+    </>
+  );
+}
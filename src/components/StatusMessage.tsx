@@ -3,20 +3,42 @@
  *
  * This module provides the StatusMessage component, a message display component for
  * showing notifications, warnings, errors, and information in terminal interfaces.
- * The component supports four variants with semantic colors and icons.
+ * Variants are resolved from a registry that declares their colors and icons.
  *
  * Key features:
- * - Four semantic variants: info, success, error, warning
- * - Automatic color mapping for each variant
+ * - Built-in semantic variants: info, success, error, warning, debug, tip
+ * - Custom variants via the theme registry and module augmentation
  * - Variant-specific icons from `tinky-figures` `useFigures()`
  * - Integration with tinky-theme for consistent styling
  * - Flexible content support via ReactNode
+ * - Optional title and details slots around the message body
+ * - Auto-dismiss timers with per-variant defaults and pause on focus
+ * - Promise-bound messages that turn from pending into success or error
+ * - CI annotation output with source locations via `StatusMessageOutputProvider`
+ * - Accessible mode replacing icons with text labels such as `Error:`
+ * - Figures and colors following the detected terminal capabilities
+ * - Clickable OSC 8 hyperlinks via `href` and `StatusMessage.Link`
+ * - Bordered, full-width banner layout for high-visibility messages
+ * - Keyboard actions with key hints, handled while the message is focused
+ * - Collapsible details toggled from the keyboard
+ * - Repeat counters such as `×5` for deduplicated messages
+ * - Absolute or relative timestamps via `StatusMessageTimestampProvider`
+ * - Opt-in inline markup: `**emphasis**`, `` `code` `` and `_dim_`
+ * - Progress bars with percentage and ETA, animated when indeterminate
+ * - Hanging-indent wrapping, truncation and line limits aware of wide
+ *   characters
+ * - Minimum severity filtering via `StatusMessageSeverityProvider`
+ * - Translatable built-in strings via `StatusMessageLocaleProvider`
+ * - Custom or hidden icons via the `icon` prop or `config.resolveIcon`
  *
  * Variant characteristics:
  * - info: Blue color with info symbol (`ℹ`/`i`) for general information
  * - success: Green color with tick symbol (`✔`/`√`) for successful operations
  * - error: Red color with cross symbol (`✘`/`×`) for error notifications
  * - warning: Yellow color with warning symbol (`⚠`/`‼`) for cautionary messages
+ * - debug: Gray color with bullet symbol (`●`/`*`) for diagnostic output
+ * - tip: Cyan color with star symbol (`★`/`*`) for hints and suggestions
+ * - pending: Magenta color with an animated spinner for work in progress
  *
  * The component uses the tinky-theme system to resolve styling and
  * configuration, allowing for easy customization through theme extension.
@@ -61,17 +83,120 @@
  * </StatusMessage>
  * ```
  *
+ * @example
+ * Title, body and details:
+ * ```tsx
+ * import { StatusMessage } from "tinky-status-message";
+ *
+ * <StatusMessage
+ *   variant="error"
+ *   title="Build failed"
+ *   details="Run with --verbose to see the full compiler output"
+ * >
+ *   2 type errors in src/index.ts
+ * </StatusMessage>
+ * ```
+ *
+ * @example
+ * Auto-dismissed message:
+ * ```tsx
+ * import { StatusMessage } from "tinky-status-message";
+ *
+ * <StatusMessage variant="success" duration={3000} showCountdown>
+ *   Saved
+ * </StatusMessage>
+ * ```
+ *
+ * @example
+ * Promise-bound message, with the promise created once:
+ * ```tsx
+ * import { useState } from "react";
+ * import { StatusMessage } from "tinky-status-message";
+ *
+ * function Deploy() {
+ *   const [deployment] = useState(() => deploy());
+ *
+ *   return (
+ *     <StatusMessage
+ *       promise={deployment}
+ *       pending="Deploying…"
+ *       success={(url) => `Deployed to ${url}`}
+ *       error={(error) => `Deploy failed: ${String(error)}`}
+ *     />
+ *   );
+ * }
+ * ```
+ *
  * @see {@link StatusMessageProps}
+ * @see {@link StatusMessagePromiseProps}
  * @see {@link statusMessageTheme}
  */
 
-import { type JSX, type ReactNode } from "react";
-import { Box, Text } from "tinky";
+import {
+  isValidElement,
+  type JSX,
+  type ReactNode,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
+import {
+  Box,
+  Text,
+  type TextProps,
+  useFocus,
+  useSizeObserver,
+  useStdout,
+} from "tinky";
 import { useFigures } from "tinky-figures";
-import { useComponentTheme } from "tinky-theme";
+import { type StyleObject, useComponentTheme } from "tinky-theme";
+import { StatusMessageLink } from "./StatusMessageLink.js";
+import { StatusMessageOutputContext } from "../contexts/status-message-output-context.js";
+import { StatusMessageVariantContext } from "../contexts/status-message-variant-context.js";
+import { useAccessibleMode } from "../hooks/use-accessible-mode.js";
+import { useActionInput } from "../hooks/use-action-input.js";
+import { useCollapsible } from "../hooks/use-collapsible.js";
+import { useExpiryTimer } from "../hooks/use-expiry-timer.js";
+import { useFormattedTimestamp } from "../hooks/use-formatted-timestamp.js";
+import { useFrameIndex } from "../hooks/use-frame-index.js";
+import { useProgressEta } from "../hooks/use-progress-eta.js";
+import { usePromiseState } from "../hooks/use-promise-state.js";
+import { useSeverityFilter } from "../hooks/use-severity-filter.js";
+import { useStatusMessageTheme } from "../hooks/use-status-message-theme.js";
+import { useStatusMessageTranslate } from "../hooks/use-status-message-translate.js";
+import { useTerminalCapabilities } from "../hooks/use-terminal-capabilities.js";
 import { type StatusMessageThemeProps } from "../themes/status-message-theme.js";
 import statusMessageTheme from "../themes/status-message-theme.js";
-import { type StatusMessageVariant } from "../types/status-message-types.js";
+import {
+  type StatusMessageAction,
+  type StatusMessageTextStyle,
+  type StatusMessageFigures,
+  type StatusMessageIconOverride,
+  type StatusMessageLayout,
+  type StatusMessageVariant,
+} from "../types/status-message-types.js";
+import { formatActionKey } from "../utils/action-keys.js";
+import { type CiAnnotationFormat, formatCiAnnotation } from "../utils/ci.js";
+import { asciiFigures } from "../utils/figures.js";
+import { type MarkupSpan, parseMarkup, stripMarkup } from "../utils/markup.js";
+import { toPlainText } from "../utils/plain-text.js";
+import {
+  countIndeterminateFrames,
+  drawIndeterminateBar,
+  drawProgressBar,
+  formatDuration,
+  resolveProgressFraction,
+  type StatusMessageProgress,
+} from "../utils/progress.js";
+import { formatClockTime } from "../utils/time.js";
+import { layoutText, type StatusMessageWrap } from "../utils/wrap.js";
+import {
+  resolveThemeConfig,
+  resolveVariant,
+  resolveVariantFrames,
+  resolveVariantLabel,
+} from "../utils/variants.js";
 
 /**
  * Props for the StatusMessage component.
@@ -83,14 +208,86 @@ import { type StatusMessageVariant } from "../types/status-message-types.js";
  *   The message is rendered in normal text style for readability.
  *   Must be a valid ReactNode (components, elements, strings, numbers, etc.).
  *
- * @property {"info" | "success" | "error" | "warning"} variant - The status variant
+ * @property {ReactNode} [title] - Optional headline rendered bold on the icon row,
+ *   above the message body.
+ *
+ * @property {ReactNode} [details] - Optional supplementary content rendered dimmed
+ *   and indented under the message body, e.g. hints or follow-up steps. A
+ *   `Box` is laid out as is, for details spanning several styled lines.
+ *
+ * @property {string} [href] - Optional URL rendered as a link under the
+ *   message, with `linkText` as its text.
+ *
+ * @property {boolean} [markup] - Parses `**emphasis**`, `` `code` `` and
+ *   `_dim_` markup in string title, message and details.
+ *
+ * @property {StatusMessageProgress} [progress] - Renders a progress bar with
+ *   percentage and ETA after the message.
+ *
+ * @property {StatusMessageWrap} [wrap] - `hanging` wrapping, or single-line
+ *   `truncate-end` or `truncate-middle` truncation of the message.
+ *
+ * @property {number} [maxLines] - Maximum number of lines of the wrapped
+ *   message.
+ *
+ * @property {StatusMessageIconOverride} [icon] - Replaces the variant icon
+ *   with a string or node, or hides it with `false`.
+ *
+ * @property {StatusMessageLayout} [layout] - `inline` icon and text row, or a
+ *   bordered full-width `banner`.
+ *
+ * @property {readonly StatusMessageAction[]} [actions] - Keyboard actions
+ *   shown as key hints and triggered while the message is focused.
+ *
+ * @property {boolean} [collapsible] - Collapses the details behind a summary
+ *   line such as `▸ 42 more lines`, toggled with `toggleKey`.
+ *
+ * @property {boolean} [expanded] - Controls whether collapsible details are
+ *   expanded, together with `onToggle`.
+ *
+ * @property {number} [maxDetailsLines] - Maximum number of detail lines
+ *   visible while expanded.
+ *
+ * @property {number} [duration] - Time in milliseconds after which the message
+ *   expires and stops rendering. Defaults to the variant's `duration` in the
+ *   theme; pass `Infinity` to keep a message despite a theme default.
+ *
+ * @property {() => void} [onExpire] - Called once when the message expires.
+ *
+ * @property {boolean} [pauseOnFocus] - Makes the message focusable and pauses
+ *   the countdown while it is focused.
+ *
+ * @property {boolean} [showCountdown] - Renders the remaining seconds after
+ *   the message.
+ *
+ * @property {number} [count] - Number of times a deduplicated message was
+ *   pushed, rendered as `×N` when greater than one. A change restarts the
+ *   expiry countdown.
+ *
+ * @property {Date | number} [lastSeen] - Time a deduplicated message was last
+ *   pushed, rendered as `last seen HH:MM:SS`.
+ *
+ * @property {Date | number} [timestamp] - Time the message appeared,
+ *   formatted by the nearest `StatusMessageTimestampProvider`.
+ *
+ * @property {string} [file] - Source file the message refers to, used by CI
+ *   annotations.
+ *
+ * @property {number} [line] - Line in `file` the message refers to.
+ *
+ * @property {number} [col] - Column in `line` the message refers to.
+ *
+ * @property {StatusMessageVariant} variant - The status variant
  *   determines the visual appearance including icon color and semantic meaning.
  *
- *   Variant options and their meanings:
+ *   Built-in variant options and their meanings:
  *   - `info`: General information or neutral messages (blue color, `ℹ` / `i`)
  *   - `success`: Successful operations or confirmations (green color, `✔` / `√`)
  *   - `error`: Error messages or failure notifications (red color, `✘` / `×`)
  *   - `warning`: Warning messages or cautionary notes (yellow color, `⚠` / `‼`)
+ *   - `debug`: Diagnostic output (gray color, `●` / `*`)
+ *   - `tip`: Hints and suggestions (cyan color, `★` / `*`)
+ *   - `pending`: Work in progress (magenta color, animated spinner)
  *
  *   Each variant has associated:
  *   - Icon color for visual emphasis
@@ -120,7 +317,176 @@ export interface StatusMessageProps {
    * The message content to display within the status message.
    * This is the main body of the status message and can include text or any valid ReactNode.
    */
-  readonly children: ReactNode;
+  readonly children?: ReactNode;
+
+  /**
+   * Optional headline rendered bold on the icon row, above the message body.
+   */
+  readonly title?: ReactNode;
+
+  /**
+   * Optional supplementary content rendered dimmed and indented under the
+   * message body. A `Box` is laid out as is instead of being wrapped in
+   * dimmed text.
+   */
+  readonly details?: ReactNode;
+
+  /**
+   * Optional URL rendered as a "learn more" link under the message. Emitted
+   * as an OSC 8 hyperlink when the terminal supports it.
+   */
+  readonly href?: string;
+
+  /**
+   * Text of the `href` link. The URL is shown when omitted.
+   */
+  readonly linkText?: ReactNode;
+
+  /**
+   * Parses inline markup in string `title`, `children` and `details`:
+   * `**emphasis**`, `` `code` `` and `_dim_`, styled by the theme's
+   * `emphasis`, `code` and `dim` styles. Unbalanced markup renders
+   * literally.
+   *
+   * @default false
+   */
+  readonly markup?: boolean;
+
+  /**
+   * Progress rendered as a bar with percentage and ETA after the message: a
+   * fraction from 0 to 1, `{ current, total }`, or `indeterminate` for an
+   * animated bar.
+   */
+  readonly progress?: StatusMessageProgress;
+
+  /**
+   * How the message wraps: `hanging`, aligning continuation lines under the
+   * text rather than the icon, or truncated to one line with an ellipsis at
+   * the end or in the middle. Defaults to `wrap` of `styles.message`.
+   */
+  readonly wrap?: StatusMessageWrap;
+
+  /**
+   * Maximum number of lines of the wrapped message, the last ending with an
+   * ellipsis when lines are cut. Defaults to `maxLines` of `styles.message`.
+   * Applies to string and number messages.
+   */
+  readonly maxLines?: number;
+
+  /**
+   * Icon replacing the variant icon: a glyph string, any node, or `false` to
+   * hide the icon together with its column. Takes precedence over
+   * `config.resolveIcon` of the theme. Accessible mode still renders the
+   * variant label.
+   */
+  readonly icon?: StatusMessageIconOverride;
+
+  /**
+   * Layout of the message. `banner` draws a full-width bordered box in the
+   * variant color. Defaults to the variant's `layout` in the theme, then
+   * `inline`.
+   */
+  readonly layout?: StatusMessageLayout;
+
+  /**
+   * Keyboard actions rendered as key hints after the message, e.g.
+   * `[r] retry`. Messages with actions are focusable; keys are handled only
+   * while the message is focused, and Tab moves focus between messages.
+   */
+  readonly actions?: readonly StatusMessageAction[];
+
+  /**
+   * Collapses the details behind a summary line such as `▸ 42 more lines`.
+   * The details are expanded and collapsed with `toggleKey` while the
+   * message is focused.
+   */
+  readonly collapsible?: boolean;
+
+  /**
+   * Whether collapsible details are expanded. The state is kept internally
+   * when omitted.
+   */
+  readonly expanded?: boolean;
+
+  /**
+   * Initial state of uncontrolled collapsible details.
+   *
+   * @default false
+   */
+  readonly defaultExpanded?: boolean;
+
+  /**
+   * Called with the requested state when collapsible details are toggled.
+   */
+  readonly onToggle?: (expanded: boolean) => void;
+
+  /**
+   * Key toggling collapsible details, shown as a key hint.
+   *
+   * @default "space"
+   */
+  readonly toggleKey?: string;
+
+  /**
+   * Maximum number of detail lines visible while expanded. The remaining
+   * lines are counted in a summary line.
+   */
+  readonly maxDetailsLines?: number;
+
+  /**
+   * Time in milliseconds after which the message expires and stops rendering.
+   * Defaults to the variant's `duration` in the theme.
+   */
+  readonly duration?: number;
+
+  /**
+   * Called once when the message expires.
+   */
+  readonly onExpire?: () => void;
+
+  /**
+   * Makes the message focusable and pauses the countdown while it is focused.
+   */
+  readonly pauseOnFocus?: boolean;
+
+  /**
+   * Renders the remaining seconds before the message expires.
+   */
+  readonly showCountdown?: boolean;
+
+  /**
+   * Number of times the message was pushed. Rendered as `×N` when greater
+   * than one. Changing it restarts the expiry countdown, so a repeated
+   * message stays visible for its full duration.
+   */
+  readonly count?: number;
+
+  /**
+   * Time the message was last pushed, rendered as `last seen HH:MM:SS`.
+   */
+  readonly lastSeen?: Date | number;
+
+  /**
+   * Time the message appeared. Rendered absolute or relative as selected by
+   * `StatusMessageTimestampProvider`, before or after the message as
+   * selected by the theme's `config.timestampPosition`.
+   */
+  readonly timestamp?: Date | number;
+
+  /**
+   * Source file the message refers to, used by CI annotations.
+   */
+  readonly file?: string;
+
+  /**
+   * Line in `file` the message refers to.
+   */
+  readonly line?: number;
+
+  /**
+   * Column in `line` the message refers to.
+   */
+  readonly col?: number;
 
   /**
    * The status variant that determines the visual appearance including icon color,
@@ -129,14 +495,100 @@ export interface StatusMessageProps {
   readonly variant: StatusMessageVariant;
 }
 
+/**
+ * Props for a StatusMessage bound to a promise.
+ *
+ * The message shows the `pending` variant with `pending` as its body until
+ * the promise settles, then turns into `success` or `error`.
+ *
+ * @interface StatusMessagePromiseProps
+ *
+ * @property {PromiseLike<T>} promise - The promise the message follows. A
+ *   different promise restarts the message from its pending state.
+ * @property {ReactNode} [pending] - Body shown while the promise is pending.
+ * @property {ReactNode | ((value: T) => ReactNode)} [success] - Body shown
+ *   once the promise is fulfilled, or a function of the fulfilled value.
+ * @property {ReactNode | ((error: unknown) => ReactNode)} [error] - Body shown
+ *   once the promise is rejected, or a function of the rejection reason.
+ *
+ * @example
+ * ```tsx
+ * const deployment = deploy();
+ *
+ * function Deploy() {
+ *   return (
+ *     <StatusMessage
+ *       promise={deployment}
+ *       pending="Deploying…"
+ *       success="Deployed"
+ *       error={(error) => `Deploy failed: ${String(error)}`}
+ *     />
+ *   );
+ * }
+ * ```
+ */
+export interface StatusMessagePromiseProps<T> extends Omit<
+  StatusMessageProps,
+  "children" | "variant"
+> {
+  /**
+   * The promise the message follows. Keep it stable across renders, e.g.
+   * with `useState(() => deploy())`: a different promise restarts the
+   * message from its pending state.
+   */
+  readonly promise: PromiseLike<T>;
+
+  /**
+   * Body shown while the promise is pending.
+   */
+  readonly pending?: ReactNode;
+
+  /**
+   * Body shown once the promise is fulfilled, or a function of the value.
+   */
+  readonly success?: ReactNode | ((value: T) => ReactNode);
+
+  /**
+   * Body shown once the promise is rejected, or a function of the reason.
+   */
+  readonly error?: ReactNode | ((error: unknown) => ReactNode);
+}
+
 /**
  * StatusMessage component for displaying messages in terminal UIs.
  *
- * @param {StatusMessageProps} props - Component props
- * @param {ReactNode} props.children - Message content to display
- * @param {"info" | "success" | "error" | "warning"} props.variant - Status variant for styling
+ * @param {StatusMessageProps | StatusMessagePromiseProps<T>} props - Component props
+ * @param {ReactNode} [props.children] - Message content to display
+ * @param {ReactNode} [props.title] - Optional bold headline on the icon row
+ * @param {ReactNode} [props.details] - Optional dimmed details under the message
+ * @param {string} [props.href] - Optional URL linked under the message
+ * @param {ReactNode} [props.linkText] - Text of the `href` link
+ * @param {boolean} [props.markup=false] - Parse inline markup in strings
+ * @param {StatusMessageProgress} [props.progress] - Progress bar after the message
+ * @param {StatusMessageWrap} [props.wrap] - Wrapping or truncation of the message
+ * @param {number} [props.maxLines] - Maximum number of message lines
+ * @param {StatusMessageLayout} [props.layout] - `inline` or `banner` layout
+ * @param {readonly StatusMessageAction[]} [props.actions] - Keyboard actions
+ * @param {boolean} [props.collapsible] - Collapse the details behind a summary
+ * @param {boolean} [props.expanded] - Controlled expanded state of the details
+ * @param {boolean} [props.defaultExpanded] - Initial uncontrolled state
+ * @param {(expanded: boolean) => void} [props.onToggle] - Called on toggle
+ * @param {string} [props.toggleKey="space"] - Key toggling the details
+ * @param {number} [props.maxDetailsLines] - Detail lines visible when expanded
+ * @param {number} [props.duration] - Auto-dismiss duration in milliseconds
+ * @param {() => void} [props.onExpire] - Called when the message expires
+ * @param {boolean} [props.pauseOnFocus] - Pause the countdown while focused
+ * @param {boolean} [props.showCountdown] - Render the remaining seconds
+ * @param {number} [props.count] - Repeat count rendered as `×N`
+ * @param {Date | number} [props.lastSeen] - Time the message was last pushed
+ * @param {Date | number} [props.timestamp] - Time the message appeared
+ * @param {string} [props.file] - Source file for CI annotations
+ * @param {number} [props.line] - Source line for CI annotations
+ * @param {number} [props.col] - Source column for CI annotations
+ * @param {StatusMessageVariant} props.variant - Status variant for styling
  *
- * @returns {JSX.Element} The rendered status message component
+ * @returns {JSX.Element | null} The rendered status message component, or
+ *   null once the message has expired
  *
  * This is the main status message component that renders stylized message boxes with
  * variant-specific colors and icons for terminal applications.
@@ -144,16 +596,54 @@ export interface StatusMessageProps {
  * Component structure:
  * ```
  * ┌─────────────────────┐
- * │  [icon]  Message    │  <- icon container + message text
+ * │  [icon]  Title      │  <- icon container + content column
+ * │          Message    │
+ * │            Details  │  <- indented details container
  * └─────────────────────┘
  * ```
  *
  * Rendering behavior:
  * 1. Reads theme configuration for the StatusMessage component
- * 2. Resolves variant-specific styles from theme
+ * 2. Resolves variant-specific styles and the variant definition from theme
  * 3. Gets terminal-appropriate symbols from `useFigures()`
  * 4. Displays icon on the left side (non-shrinking)
- * 5. Displays content on the right side
+ * 5. Displays title, message and details stacked on the right side
+ * 6. Stops rendering once its duration has elapsed
+ *
+ * When `promise` is passed instead of `variant`, the message follows the
+ * promise: `pending` while it runs, then `success` or `error` once it
+ * settles. Results arriving after unmount are ignored.
+ *
+ * Inside a `StatusMessageOutputProvider` in annotation mode, the message is
+ * written to stdout as a CI annotation instead, e.g.
+ * `::error file=src/index.ts,line=3::Missing semicolon` on GitHub Actions.
+ *
+ * In accessible mode, enabled by a screen reader, `NO_COLOR`, `TERM=dumb` or
+ * `StatusMessageOutputProvider`, the icon is replaced by the variant label
+ * from the theme, e.g. `Error:`, and no spinner is animated.
+ *
+ * With `layout="banner"`, the message is drawn in a full-width box bordered
+ * in the variant color, with the icon and title in a header row:
+ * ```
+ * ╭──────────────────────────────╮
+ * │ ⚠ Breaking change            │
+ * │ The config format changed    │
+ * ╰──────────────────────────────╯
+ * ```
+ *
+ * Messages with `actions` show key hints such as `[r] retry` and are
+ * focusable, receiving focus automatically when nothing else is focused.
+ * Their keys are only handled while the message is focused, so several
+ * actionable messages can share keys; Tab and Shift+Tab move focus between
+ * them.
+ *
+ * With `collapsible`, the details are replaced by a summary line such as
+ * `▸ 42 more lines` and an `[space] expand` key hint. The arrows come from
+ * `useFigures()`, so they degrade on terminals without Unicode support.
+ *
+ * Links render as OSC 8 hyperlinks when the terminal supports them and as
+ * `text (url)` otherwise, both for `href` and for `StatusMessage.Link`
+ * elements inside the message.
  *
  * Theme integration:
  * - Uses `useComponentTheme` hook to resolve styles
@@ -197,34 +687,677 @@ export interface StatusMessageProps {
  * ```
  *
  * @see {@link StatusMessageProps}
+ * @see {@link StatusMessagePromiseProps}
  * @see {@link statusMessageTheme}
  */
-export function StatusMessage({
+export function StatusMessage<T>(
+  props: StatusMessageProps | StatusMessagePromiseProps<T>,
+): JSX.Element | null {
+  if ("promise" in props) {
+    return <PromiseStatusMessage {...props} />;
+  }
+
+  return <StatusMessageView {...props} />;
+}
+
+/**
+ * Inline hyperlink for use inside a status message body.
+ *
+ * @see {@link StatusMessageLink}
+ */
+StatusMessage.Link = StatusMessageLink;
+
+/**
+ * Renders a status message that follows the settlement of a promise.
+ *
+ * @private
+ */
+function PromiseStatusMessage<T>({
+  promise,
+  pending,
+  success,
+  error,
+  ...props
+}: StatusMessagePromiseProps<T>): JSX.Element | null {
+  const state = usePromiseState(promise);
+
+  switch (state.status) {
+    case "fulfilled":
+      return (
+        <StatusMessageView {...props} variant="success">
+          {typeof success === "function" ? success(state.value) : success}
+        </StatusMessageView>
+      );
+    case "rejected":
+      return (
+        <StatusMessageView {...props} variant="error">
+          {typeof error === "function" ? error(state.reason) : error}
+        </StatusMessageView>
+      );
+    default:
+      return (
+        <StatusMessageView {...props} variant="pending">
+          {pending}
+        </StatusMessageView>
+      );
+  }
+}
+
+/**
+ * Renders a status message for a fixed variant, interactively or as a CI
+ * annotation depending on the output context, unless its severity is below
+ * the threshold of the severity context.
+ *
+ * @private
+ */
+function StatusMessageView(props: StatusMessageProps): JSX.Element | null {
+  const { annotationFormat } = useContext(StatusMessageOutputContext);
+  const hidden = useSeverityFilter(props.variant);
+
+  if (hidden) {
+    return null;
+  }
+
+  if (annotationFormat) {
+    return <AnnotatedStatusMessage {...props} format={annotationFormat} />;
+  }
+
+  return <InteractiveStatusMessage {...props} />;
+}
+
+/**
+ * Writes a status message to stdout as a CI annotation.
+ *
+ * @private
+ */
+function AnnotatedStatusMessage({
   children,
+  title,
+  details,
+  href,
+  linkText,
+  markup = false,
+  file,
+  line,
+  col,
   variant,
-}: StatusMessageProps): JSX.Element {
-  const figures = useFigures();
-  const { styles } = useComponentTheme<StatusMessageThemeProps>(
+  format,
+}: StatusMessageProps & { format: CiAnnotationFormat }): null {
+  const { write } = useStdout();
+  const themeProps = { variant };
+  const { config } = useComponentTheme<StatusMessageThemeProps>(
     "StatusMessage",
     statusMessageTheme,
-    { variant },
+    themeProps,
+  );
+
+  const { severity } = resolveVariant(
+    resolveThemeConfig(config, themeProps).variants,
+    variant,
+  );
+  const link = href && (
+    <StatusMessageLink href={href}>{linkText}</StatusMessageLink>
+  );
+  const plain = (node: ReactNode) =>
+    markup && typeof node === "string" ? stripMarkup(node) : toPlainText(node);
+  const message = [plain(children), plain(details), toPlainText(link)]
+    .filter(Boolean)
+    .join("\n");
+  const annotation = formatCiAnnotation(
+    { severity, title: plain(title), message, file, line, col },
+    format,
+  );
+
+  // Effects run twice under StrictMode; only write an annotation whose
+  // content changed since the last write.
+  const written = useRef<string | undefined>(undefined);
+
+  useEffect(() => {
+    if (written.current === annotation) {
+      return;
+    }
+
+    written.current = annotation;
+    write(`${annotation}\n`);
+  }, [annotation, write]);
+
+  return null;
+}
+
+/**
+ * Renders a status message for a fixed variant in the terminal UI.
+ *
+ * @private
+ */
+function InteractiveStatusMessage({
+  children,
+  title,
+  details,
+  href,
+  linkText,
+  markup = false,
+  progress,
+  wrap,
+  maxLines,
+  icon: ownIcon,
+  layout,
+  actions: ownActions = [],
+  collapsible = false,
+  expanded,
+  defaultExpanded,
+  onToggle,
+  toggleKey = "space",
+  maxDetailsLines,
+  duration,
+  onExpire,
+  pauseOnFocus = false,
+  showCountdown = false,
+  count,
+  lastSeen,
+  timestamp,
+  variant,
+}: StatusMessageProps): JSX.Element | null {
+  const figures = useFigures();
+  const accessible = useAccessibleMode();
+  const capabilities = useTerminalCapabilities();
+  const themeProps = { variant };
+  const { styles, config } = useStatusMessageTheme(themeProps);
+
+  const {
+    variants,
+    timestampPosition,
+    progressWidth,
+    resolveIcon,
+    colorMessage,
+  } = resolveThemeConfig(config, themeProps);
+  const definition = resolveVariant(variants, variant);
+  const translate = useStatusMessageTranslate();
+  const formattedTimestamp = useFormattedTimestamp(timestamp);
+  const activeFigures = capabilities.unicode
+    ? figures
+    : { ...figures, ...asciiFigures };
+  const iconOverride =
+    ownIcon === undefined ? resolveIcon?.(variant, activeFigures) : ownIcon;
+  const frames = resolveVariantFrames(
+    definition.icon,
+    activeFigures,
+    capabilities.unicode,
+  );
+  const frame = useFrameIndex(
+    accessible || iconOverride !== undefined ? 1 : frames.length,
+    typeof definition.icon === "object" ? definition.icon.interval : undefined,
+  );
+  const icon = iconOverride === undefined ? frames[frame] : iconOverride;
+
+  const [isExpanded, toggle] = useCollapsible({
+    expanded,
+    defaultExpanded,
+    onToggle,
+  });
+  const canCollapse = collapsible && details !== undefined;
+  const actions = useMemo(
+    () =>
+      canCollapse
+        ? [
+            ...ownActions,
+            {
+              key: toggleKey,
+              label: translate(
+                isExpanded ? "details.collapse" : "details.expand",
+              ),
+              onAction: toggle,
+            },
+          ]
+        : ownActions,
+    [canCollapse, ownActions, toggleKey, isExpanded, toggle, translate],
   );
 
-  const iconByVariant: Record<StatusMessageVariant, string> = {
-    info: figures.info,
-    success: figures.tick,
-    error: figures.cross,
-    warning: figures.warning,
-  };
-  const icon = iconByVariant[variant];
+  const effectiveDuration = duration ?? definition.duration;
+  const { isFocused } = useFocus({
+    isActive:
+      actions.length > 0 || (pauseOnFocus && effectiveDuration !== undefined),
+    autoFocus: actions.length > 0,
+  });
+  useActionInput(actions, isFocused);
+  const { expired, remaining } = useExpiryTimer({
+    duration: effectiveDuration,
+    paused: pauseOnFocus && isFocused,
+    restartKey: count,
+    onExpire,
+  });
+
+  if (expired) {
+    return null;
+  }
+
+  const color =
+    capabilities.colorDepth === "none" ? undefined : definition.color;
+  const textColor = colorMessage ? color : undefined;
+  const iconElement = accessible ? (
+    <Text {...styles.label}>
+      {translate(`label.${variant}`, {
+        defaultValue: resolveVariantLabel(definition, variant),
+      })}
+      :
+    </Text>
+  ) : (
+    icon !== false && (
+      <Text color={color} {...styles.icon}>
+        {icon}
+      </Text>
+    )
+  );
+  const iconContainer = iconElement !== false && (
+    <Box {...styles.iconContainer}>{iconElement}</Box>
+  );
+  const withMarkup = (node: ReactNode) =>
+    markup ? renderMarkup(node, styles) : node;
+  const titleElement = title !== undefined && (
+    <Text color={textColor} {...styles.title}>
+      {withMarkup(title)}
+    </Text>
+  );
+  // Text bails out before its hooks when it has no children, so an empty
+  // message must not reach it: a promise without `pending` would otherwise
+  // change Text's hook order once it settles.
+  const messageElement = children !== undefined && children !== null && (
+    <MessageText
+      wrap={wrap}
+      maxLines={maxLines}
+      markup={markup}
+      unicode={capabilities.unicode}
+      emojiWidth={capabilities.emojiWidth}
+      color={textColor}
+      styles={styles}
+    >
+      {children}
+    </MessageText>
+  );
+  const body = (
+    <>
+      {progress === undefined ? (
+        messageElement
+      ) : (
+        <Box {...styles.messageRow}>
+          {messageElement}
+          <ProgressIndicator
+            progress={progress}
+            maxWidth={progressWidth}
+            color={color}
+            unicode={capabilities.unicode}
+            accessible={accessible}
+            styles={styles}
+          />
+        </Box>
+      )}
+      {details !== undefined && (
+        <Box {...styles.detailsContainer}>
+          {canCollapse ? (
+            <CollapsibleDetails
+              lines={toPlainText(details).split("\n")}
+              expanded={isExpanded}
+              maxLines={maxDetailsLines}
+              markup={markup}
+              styles={styles}
+              figures={activeFigures}
+              accessible={accessible}
+            />
+          ) : isValidElement(details) && details.type === Box ? (
+            details
+          ) : (
+            <Text {...styles.details}>{withMarkup(details)}</Text>
+          )}
+        </Box>
+      )}
+      {href !== undefined && (
+        <Text>
+          <StatusMessageLink href={href}>{linkText}</StatusMessageLink>
+        </Text>
+      )}
+      {actions.length > 0 && (
+        <Box {...styles.actions}>
+          {actions.map((action) => (
+            <Text
+              key={action.key}
+              {...(isFocused ? undefined : styles.inactiveAction)}
+            >
+              <Text {...styles.actionKey}>[{formatActionKey(action.key)}]</Text>{" "}
+              <Text {...styles.actionLabel}>{action.label}</Text>
+            </Text>
+          ))}
+        </Box>
+      )}
+    </>
+  );
+  const timestampElement = formattedTimestamp !== undefined && (
+    <Text {...styles.timestamp}>{formattedTimestamp}</Text>
+  );
+  const leading = timestampPosition === "before" && timestampElement;
+  const countdown = (
+    <>
+      {timestampPosition === "after" && timestampElement}
+      {count !== undefined && count > 1 && (
+        <Text {...styles.repeatCount}>
+          {translate("repeat.count", {
+            count,
+            times: capabilities.unicode ? "×" : "x",
+          })}
+        </Text>
+      )}
+      {lastSeen !== undefined && (
+        <Text {...styles.lastSeen}>
+          {translate("repeat.lastSeen", { time: formatClockTime(lastSeen) })}
+        </Text>
+      )}
+      {showCountdown && remaining !== undefined && (
+        <Text {...styles.countdown}>
+          {translate("countdown.seconds", {
+            count: Math.ceil(remaining / 1000),
+          })}
+        </Text>
+      )}
+    </>
+  );
+
+  if ((layout ?? definition.layout) === "banner") {
+    return (
+      <StatusMessageVariantContext.Provider value={variant}>
+        <Box
+          borderColor={color}
+          {...styles.banner}
+          {...(!capabilities.unicode && { borderStyle: "classic" })}
+          {...(accessible && { borderStyle: undefined, paddingX: 0 })}
+        >
+          <Box {...styles.bannerHeader}>
+            {leading}
+            {iconContainer}
+            {titleElement}
+            {countdown}
+          </Box>
+          {body}
+        </Box>
+      </StatusMessageVariantContext.Provider>
+    );
+  }
 
   return (
-    <Box {...styles.container}>
-      <Box {...styles.iconContainer}>
-        <Text {...styles.icon}>{icon}</Text>
+    <StatusMessageVariantContext.Provider value={variant}>
+      <Box {...styles.container}>
+        {leading}
+        {iconContainer}
+
+        <Box {...styles.content}>
+          {titleElement}
+          {body}
+        </Box>
+
+        {countdown}
       </Box>
+    </StatusMessageVariantContext.Provider>
+  );
+}
+
+interface CollapsibleDetailsProps {
+  lines: readonly string[];
+  expanded: boolean;
+  maxLines?: number;
+  markup: boolean;
+  styles: Record<string, StyleObject>;
+  figures: StatusMessageFigures;
+  accessible: boolean;
+}
+
+/**
+ * Renders the summary and visible lines of collapsible details. Summary
+ * lines go without their figure in accessible mode.
+ *
+ * @private
+ */
+function CollapsibleDetails({
+  lines,
+  expanded,
+  maxLines = Infinity,
+  markup,
+  styles,
+  figures,
+  accessible,
+}: CollapsibleDetailsProps): JSX.Element {
+  const translate = useStatusMessageTranslate();
+  const summary = (figure: string, text: string) =>
+    accessible ? text : `${figure} ${text}`;
+
+  if (!expanded) {
+    return (
+      <Text {...styles.detailsSummary}>
+        {summary(
+          figures.triangleRightSmall,
+          translate("details.moreLines", { count: lines.length }),
+        )}
+      </Text>
+    );
+  }
+
+  const visible = lines.slice(0, Math.max(0, maxLines));
+  const hidden = lines.length - visible.length;
+
+  return (
+    <>
+      <Text {...styles.detailsSummary}>
+        {summary(
+          figures.triangleDownSmall,
+          translate("details.lineCount", { count: lines.length }),
+        )}
+      </Text>
+      {visible.map((line, index) => (
+        <Text key={index} {...styles.details}>
+          {markup ? renderMarkup(line, styles) : line}
+        </Text>
+      ))}
+      {hidden > 0 && (
+        <Text {...styles.detailsSummary}>
+          {summary(
+            figures.ellipsis,
+            translate("details.moreLines", { count: hidden }),
+          )}
+        </Text>
+      )}
+    </>
+  );
+}
+
+interface MessageTextProps {
+  children?: ReactNode;
+  wrap?: StatusMessageWrap;
+  maxLines?: number;
+  markup: boolean;
+  unicode: boolean;
+  emojiWidth: number;
+  color: TextProps["color"];
+  styles: Record<string, StyleObject>;
+}
+
+/**
+ * Renders the message text, laying out string messages in the measured
+ * width when they are truncated or limited to `maxLines`.
+ *
+ * @private
+ */
+function MessageText({
+  children,
+  wrap: ownWrap,
+  maxLines: ownMaxLines,
+  markup,
+  unicode,
+  emojiWidth,
+  color,
+  styles,
+}: MessageTextProps): JSX.Element {
+  const {
+    wrap: themeWrap,
+    maxLines: themeMaxLines,
+    ...textStyles
+  } = styles.message as StatusMessageTextStyle;
+  const wrap = ownWrap ?? themeWrap ?? "hanging";
+  const maxLines = ownMaxLines ?? themeMaxLines;
+  const text =
+    typeof children === "string" || typeof children === "number"
+      ? String(children)
+      : undefined;
+  const needsLayout =
+    wrap !== "hanging" || (maxLines !== undefined && text !== undefined);
+  const [ref, width] = useSizeObserver({ isActive: needsLayout });
 
-      <Text {...styles.message}>{children}</Text>
+  if (!needsLayout) {
+    return (
+      <Text color={color} {...textStyles}>
+        {markup ? renderMarkup(children, styles) : children}
+      </Text>
+    );
+  }
+
+  if (text === undefined || width <= 0) {
+    return (
+      <Box ref={ref} {...styles.messageLines}>
+        <Text
+          color={color}
+          {...textStyles}
+          wrap={wrap === "hanging" ? "wrap" : wrap}
+        >
+          {markup ? renderMarkup(children, styles) : children}
+        </Text>
+      </Box>
+    );
+  }
+
+  const lines = layoutText(
+    markup ? parseMarkup(text) : [{ type: "text", text }],
+    {
+      width,
+      wrap,
+      maxLines,
+      ellipsis: unicode ? "…" : "...",
+      emojiWidth,
+    },
+  );
+
+  return (
+    <Box ref={ref} {...styles.messageLines}>
+      {lines.map((line, index) => (
+        <Text key={index} color={color} {...textStyles}>
+          {renderSpans(line, styles)}
+        </Text>
+      ))}
     </Box>
   );
 }
+
+interface ProgressIndicatorProps {
+  progress: StatusMessageProgress;
+  maxWidth: number;
+  color: TextProps["color"];
+  unicode: boolean;
+  accessible: boolean;
+  styles: Record<string, StyleObject>;
+}
+
+/**
+ * Renders a progress bar sized to the terminal, followed by the percentage
+ * and ETA. Accessible mode renders the label only.
+ *
+ * @private
+ */
+function ProgressIndicator({
+  progress,
+  maxWidth,
+  color,
+  unicode,
+  accessible,
+  styles,
+}: ProgressIndicatorProps): JSX.Element {
+  const { stdout } = useStdout();
+  const translate = useStatusMessageTranslate();
+  const width = Math.max(
+    5,
+    Math.min(maxWidth, Math.floor((stdout.columns ?? 80) / 4)),
+  );
+  const fraction = resolveProgressFraction(progress);
+  const eta = useProgressEta(fraction);
+  const frame = useFrameIndex(
+    fraction === undefined && !accessible ? countIndeterminateFrames(width) : 1,
+  );
+
+  const label =
+    fraction === undefined
+      ? accessible && translate("progress.inProgress")
+      : [
+          `${Math.floor(fraction * 100)}%`,
+          eta !== undefined &&
+            translate("progress.timeLeft", {
+              duration: formatDuration(eta, translate),
+            }),
+        ]
+          .filter(Boolean)
+          .join(unicode ? " · " : " - ");
+
+  let bar: ReactNode = null;
+  if (!accessible) {
+    const [before, filled, after] =
+      fraction === undefined
+        ? drawIndeterminateBar(frame, width, unicode)
+        : ["", ...drawProgressBar(fraction, width, unicode)];
+
+    bar = (
+      <Text>
+        {!unicode && "["}
+        <Text {...styles.progressTrack}>{before}</Text>
+        <Text color={color} {...styles.progressBar}>
+          {filled}
+        </Text>
+        <Text {...styles.progressTrack}>{after}</Text>
+        {!unicode && "]"}
+      </Text>
+    );
+  }
+
+  return (
+    <Box {...styles.progress}>
+      {bar}
+      {label && <Text {...styles.progressLabel}>{label}</Text>}
+    </Box>
+  );
+}
+
+/**
+ * Renders the inline markup of a string as styled spans. Other nodes are
+ * returned as they are.
+ *
+ * @private
+ */
+function renderMarkup(
+  node: ReactNode,
+  styles: Record<string, StyleObject>,
+): ReactNode {
+  return typeof node === "string"
+    ? renderSpans(parseMarkup(node), styles)
+    : node;
+}
+
+/**
+ * Renders markup spans, styling all but literal text.
+ *
+ * @private
+ */
+function renderSpans(
+  spans: readonly MarkupSpan[],
+  styles: Record<string, StyleObject>,
+): ReactNode {
+  return spans.map((span, index) =>
+    span.type === "text" ? (
+      span.text
+    ) : (
+      <Text key={index} {...styles[span.type]}>
+        {span.text}
+      </Text>
+    ),
+  );
+}
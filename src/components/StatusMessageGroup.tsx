@@ -0,0 +1,384 @@
+/**
+ * StatusMessageGroup component implementation.
+ *
+ * This module provides the StatusMessageGroup component, which wraps several
+ * status messages under a summary line counting them per variant, e.g.
+ * `✘ 3 errors  ⚠ 5 warnings`.
+ *
+ * Key features:
+ * - Counts the wrapped messages per variant
+ * - Renders the counts with the icons and colors of the variant registry,
+ *   or the icons of `config.resolveIcon`
+ * - Optionally sorts messages by severity, most severe first
+ * - Optionally groups messages under per-variant subheadings
+ * - Optionally collapses repeated messages into one with a `×N` counter
+ * - Summary format overridable through the theme
+ *
+ * @example
+ * ```tsx
+ * import { StatusMessage, StatusMessageGroup } from "tinky-status-message";
+ *
+ * <StatusMessageGroup sort="severity">
+ *   <StatusMessage variant="warning">Deprecated flag --legacy</StatusMessage>
+ *   <StatusMessage variant="error">Missing semicolon</StatusMessage>
+ * </StatusMessageGroup>
+ * // ✘ 1 error  ⚠ 1 warning
+ * // ✘ Missing semicolon
+ * // ⚠ Deprecated flag --legacy
+ * ```
+ *
+ * @see {@link StatusMessageGroupProps}
+ * @see {@link statusMessageGroupTheme}
+ */
+
+import {
+  Children,
+  cloneElement,
+  isValidElement,
+  type JSX,
+  useContext,
+  type ReactNode,
+  type ReactElement,
+} from "react";
+import { Box, Text, type TextProps } from "tinky";
+import { useFigures } from "tinky-figures";
+import { useComponentTheme } from "tinky-theme";
+import { StatusMessageSeverityContext } from "../contexts/status-message-severity-context.js";
+import { useAccessibleMode } from "../hooks/use-accessible-mode.js";
+import { useStatusMessageTheme } from "../hooks/use-status-message-theme.js";
+import { useStatusMessageTranslate } from "../hooks/use-status-message-translate.js";
+import { useTerminalCapabilities } from "../hooks/use-terminal-capabilities.js";
+import {
+  type StatusMessageGroupCountFormatter,
+  type StatusMessageGroupThemeProps,
+} from "../themes/status-message-group-theme.js";
+import statusMessageGroupTheme from "../themes/status-message-group-theme.js";
+import { type StatusMessageDedupePolicy } from "../types/status-message-queue-types.js";
+import { type StatusMessageVariant } from "../types/status-message-types.js";
+import { getDedupeKey, resolveDedupePolicy } from "../utils/dedupe.js";
+import { describeError, formatErrorHeadline } from "../utils/errors.js";
+import { asciiFigures } from "../utils/figures.js";
+import {
+  resolveSeverityLevel,
+  resolveThemeConfig,
+  resolveVariant,
+  resolveVariantFrames,
+} from "../utils/variants.js";
+import { ErrorMessage, type ErrorMessageProps } from "./ErrorMessage.js";
+
+/**
+ * How StatusMessageGroup orders its messages.
+ *
+ * - `none`: Keep the order of the children
+ * - `severity`: Most severe first, keeping the order within a severity
+ */
+export type StatusMessageGroupSort = "none" | "severity";
+
+/**
+ * Props for the StatusMessageGroup component.
+ */
+export interface StatusMessageGroupProps {
+  /**
+   * The grouped messages, usually `StatusMessage` or `ErrorMessage`
+   * elements. Other children are not counted, and move after the messages
+   * when they are sorted or grouped.
+   */
+  readonly children?: ReactNode;
+
+  /**
+   * How messages are ordered.
+   *
+   * @default "none"
+   */
+  readonly sort?: StatusMessageGroupSort;
+
+  /**
+   * Whether to group messages under per-variant subheadings such as
+   * `✘ 3 errors`, ordered by severity.
+   *
+   * @default false
+   */
+  readonly groupByVariant?: boolean;
+
+  /**
+   * Whether to render the summary line.
+   *
+   * @default true
+   */
+  readonly showSummary?: boolean;
+
+  /**
+   * Collapses repeated messages into the first of them, rendered with a
+   * `×N` counter. The `window` of a policy does not apply to static
+   * children.
+   *
+   * @default false
+   */
+  readonly dedupe?: boolean | StatusMessageDedupePolicy;
+}
+
+interface GroupEntry {
+  node: ReactNode;
+  variant?: StatusMessageVariant;
+  count: number;
+}
+
+interface GroupedMessageProps {
+  variant?: StatusMessageVariant;
+  title?: ReactNode;
+  children?: ReactNode;
+  details?: ReactNode;
+  count?: number;
+}
+
+/**
+ * Wraps status messages under a summary line with per-variant counts.
+ *
+ * @param {StatusMessageGroupProps} props - Component props
+ * @param {ReactNode} [props.children] - The grouped messages
+ * @param {StatusMessageGroupSort} [props.sort="none"] - Message order
+ * @param {boolean} [props.groupByVariant=false] - Group under subheadings
+ * @param {boolean} [props.showSummary=true] - Render the summary line
+ * @param {boolean | StatusMessageDedupePolicy} [props.dedupe=false] - Collapse repeats
+ *
+ * @returns {JSX.Element} The summary followed by the messages
+ *
+ * Counts are listed most severe first. Icons, colors and severities come
+ * from the variant registry in `statusMessageTheme`, and the counts are
+ * formatted by `config.formatCount` of `statusMessageGroupTheme`.
+ * Collapsed repeats still count towards the summary, while messages hidden
+ * by the `minSeverity` of a `StatusMessageSeverityProvider` do not.
+ *
+ * @see {@link StatusMessageGroupProps}
+ * @see {@link statusMessageGroupTheme}
+ */
+export function StatusMessageGroup({
+  children,
+  sort = "none",
+  groupByVariant = false,
+  showSummary = true,
+  dedupe,
+}: StatusMessageGroupProps): JSX.Element {
+  const figures = useFigures();
+  const accessible = useAccessibleMode();
+  const capabilities = useTerminalCapabilities();
+  const { minLevel } = useContext(StatusMessageSeverityContext);
+  const translate = useStatusMessageTranslate();
+  const { config: messageConfig } = useStatusMessageTheme({ variant: "info" });
+
+  const entries = collapseRepeats(
+    Children.toArray(children).map((node) => ({
+      node,
+      variant: variantOf(node),
+      count: countOf(node),
+    })),
+    resolveDedupePolicy(dedupe),
+  );
+
+  const configOf = (variant: StatusMessageVariant) =>
+    resolveThemeConfig(messageConfig, { variant });
+  const definitionOf = (variant: StatusMessageVariant) =>
+    resolveVariant(configOf(variant).variants, variant);
+  const bySeverity = (a: StatusMessageVariant, b: StatusMessageVariant) =>
+    resolveSeverityLevel(definitionOf(b)) -
+    resolveSeverityLevel(definitionOf(a));
+
+  const isShown = (variant: StatusMessageVariant) =>
+    minLevel === undefined ||
+    resolveSeverityLevel(definitionOf(variant)) >= minLevel;
+
+  const counts: Partial<Record<StatusMessageVariant, number>> = {};
+  for (const { variant, count } of entries) {
+    if (variant && isShown(variant)) {
+      counts[variant] = (counts[variant] ?? 0) + count;
+    }
+  }
+  const variants = (Object.keys(counts) as StatusMessageVariant[]).sort(
+    bySeverity,
+  );
+
+  const themeProps = { counts };
+  const { styles, config } = useComponentTheme<StatusMessageGroupThemeProps>(
+    "StatusMessageGroup",
+    statusMessageGroupTheme,
+    themeProps,
+  );
+  const resolvedConfig =
+    typeof config === "function" ? config(themeProps) : config;
+  const formatCount =
+    (resolvedConfig?.formatCount as
+      StatusMessageGroupCountFormatter | undefined) ??
+    statusMessageGroupTheme.config.formatCount;
+
+  const renderCount = (
+    variant: StatusMessageVariant,
+    textStyles: TextProps,
+  ) => {
+    const definition = definitionOf(variant);
+    const activeFigures = capabilities.unicode
+      ? figures
+      : { ...figures, ...asciiFigures };
+    const [glyph] = resolveVariantFrames(
+      definition.icon,
+      activeFigures,
+      capabilities.unicode,
+    );
+    const icon =
+      configOf(variant).resolveIcon?.(variant, activeFigures) ?? glyph;
+    const color =
+      capabilities.colorDepth === "none" ? undefined : definition.color;
+
+    return (
+      <Text key={variant}>
+        {!accessible && icon !== false && <Text color={color}>{icon} </Text>}
+        <Text {...textStyles}>
+          {formatCount(counts[variant] ?? 0, variant, translate)}
+        </Text>
+      </Text>
+    );
+  };
+
+  const ordered =
+    sort === "severity" || groupByVariant
+      ? [...entries].sort((a, b) =>
+          a.variant && b.variant
+            ? bySeverity(a.variant, b.variant)
+            : Number(!a.variant) - Number(!b.variant),
+        )
+      : entries;
+
+  return (
+    <Box {...styles.container}>
+      {showSummary && variants.length > 0 && (
+        <Box {...styles.summary}>
+          {variants.map((variant) =>
+            renderCount(variant, styles.summaryCount as TextProps),
+          )}
+        </Box>
+      )}
+      {groupByVariant ? (
+        <>
+          {variants.map((variant) => (
+            <Box key={variant} {...styles.section}>
+              {renderCount(variant, styles.subheading as TextProps)}
+              <Box {...styles.items}>
+                {ordered
+                  .filter((entry) => entry.variant === variant)
+                  .map((entry) => entry.node)}
+              </Box>
+            </Box>
+          ))}
+          <Box {...styles.items}>
+            {ordered
+              .filter((entry) => !entry.variant || !isShown(entry.variant))
+              .map((entry) => entry.node)}
+          </Box>
+        </>
+      ) : (
+        <Box {...styles.items}>{ordered.map((entry) => entry.node)}</Box>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * Collapses repeated message elements into the first of them, passing the
+ * summed `count`.
+ *
+ * @private
+ */
+function collapseRepeats(
+  entries: readonly GroupEntry[],
+  policy: StatusMessageDedupePolicy | undefined,
+): GroupEntry[] {
+  if (!policy) {
+    return [...entries];
+  }
+
+  const collapsed: GroupEntry[] = [];
+  const byKey = new Map<string, number>();
+
+  for (const entry of entries) {
+    if (!entry.variant || !isValidElement(entry.node)) {
+      collapsed.push(entry);
+      continue;
+    }
+
+    const { title, details } = entry.node.props as GroupedMessageProps;
+    const key = getDedupeKey(
+      {
+        variant: entry.variant,
+        title,
+        message: messageOf(entry.node),
+        details,
+      },
+      policy,
+    );
+    const index = byKey.get(key);
+
+    if (index === undefined) {
+      byKey.set(key, collapsed.length);
+      collapsed.push(entry);
+      continue;
+    }
+
+    const first = collapsed[index];
+    const count = first.count + entry.count;
+    collapsed[index] = {
+      ...first,
+      count,
+      node: cloneElement(first.node as ReactElement<GroupedMessageProps>, {
+        count,
+      }),
+    };
+  }
+
+  return collapsed;
+}
+
+/**
+ * Reads the repeat count of a grouped message element.
+ *
+ * @private
+ */
+function countOf(node: ReactNode): number {
+  return isValidElement(node)
+    ? ((node as ReactElement<GroupedMessageProps>).props.count ?? 1)
+    : 1;
+}
+
+/**
+ * Reads the message of a grouped message element. Error messages are
+ * described by the error they render, with its name, message and code.
+ *
+ * @private
+ */
+function messageOf(node: ReactElement): ReactNode {
+  if (node.type === ErrorMessage) {
+    const description = describeError(
+      (node as ReactElement<ErrorMessageProps>).props.error,
+    );
+
+    return description.code === undefined
+      ? formatErrorHeadline(description)
+      : `${formatErrorHeadline(description)} [${description.code}]`;
+  }
+
+  return (node as ReactElement<GroupedMessageProps>).props.children;
+}
+
+/**
+ * Reads the variant of a grouped message element.
+ *
+ * @private
+ */
+function variantOf(node: ReactNode): StatusMessageVariant | undefined {
+  if (!isValidElement(node)) {
+    return undefined;
+  }
+
+  const { variant } = (node as ReactElement<{ variant?: StatusMessageVariant }>)
+    .props;
+
+  return variant ?? (node.type === ErrorMessage ? "error" : undefined);
+}
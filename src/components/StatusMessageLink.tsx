@@ -0,0 +1,77 @@
+/**
+ * StatusMessageLink component implementation.
+ *
+ * This module provides the StatusMessageLink component, available as
+ * `StatusMessage.Link`, which renders a clickable OSC 8 hyperlink inside a
+ * status message when the terminal supports it and `text (url)` otherwise.
+ *
+ * @example
+ * ```tsx
+ * import { StatusMessage } from "tinky-status-message";
+ *
+ * <StatusMessage variant="error">
+ *   Token expired, see{" "}
+ *   <StatusMessage.Link href="https://example.com/docs/auth">
+ *     the docs
+ *   </StatusMessage.Link>
+ * </StatusMessage>
+ * ```
+ *
+ * @see {@link formatHyperlink}
+ */
+
+import { type JSX, type ReactNode, useContext } from "react";
+import { Text } from "tinky";
+import { useComponentTheme } from "tinky-theme";
+import { StatusMessageVariantContext } from "../contexts/status-message-variant-context.js";
+import { useTerminalCapabilities } from "../hooks/use-terminal-capabilities.js";
+import { type StatusMessageThemeProps } from "../themes/status-message-theme.js";
+import statusMessageTheme from "../themes/status-message-theme.js";
+import { formatHyperlink } from "../utils/hyperlink.js";
+import { toPlainText } from "../utils/plain-text.js";
+
+/**
+ * Props for the StatusMessageLink component.
+ */
+export interface StatusMessageLinkProps {
+  /**
+   * Link target.
+   */
+  readonly href: string;
+
+  /**
+   * Visible link text. The URL is shown when omitted.
+   */
+  readonly children?: ReactNode;
+}
+
+/**
+ * Renders a hyperlink inside a status message.
+ *
+ * @param {StatusMessageLinkProps} props - Component props
+ * @param {string} props.href - Link target
+ * @param {ReactNode} [props.children] - Visible link text
+ *
+ * @returns {JSX.Element} The link, styled by `statusMessageTheme.styles.link`
+ *
+ * Terminals supporting OSC 8 hyperlinks show only the text and open the
+ * URL on click. Other terminals print the URL in parentheses after the text.
+ */
+export function StatusMessageLink({
+  href,
+  children,
+}: StatusMessageLinkProps): JSX.Element {
+  const variant = useContext(StatusMessageVariantContext);
+  const { hyperlinks } = useTerminalCapabilities();
+  const { styles } = useComponentTheme<StatusMessageThemeProps>(
+    "StatusMessage",
+    statusMessageTheme,
+    { variant },
+  );
+
+  return (
+    <Text {...styles.link}>
+      {formatHyperlink(toPlainText(children), href, hyperlinks)}
+    </Text>
+  );
+}
@@ -0,0 +1,147 @@
+/**
+ * StatusMessageList component implementation.
+ *
+ * This module provides the StatusMessageList component, the outlet that renders
+ * the status message queue of the nearest `StatusMessageProvider`.
+ *
+ * Key features:
+ * - Renders each queued message with `StatusMessage`
+ * - Limits the number of visible messages with `maxVisible`
+ * - Orders messages newest first or newest last
+ * - Summarizes hidden messages with a "+N more" line
+ * - Shows repeat counters and last-seen times of deduplicated messages
+ * - Dismisses messages from the queue when their duration elapses
+ *
+ * @example
+ * ```tsx
+ * import {
+ *   StatusMessageList,
+ *   StatusMessageProvider,
+ * } from "tinky-status-message";
+ *
+ * <StatusMessageProvider>
+ *   <App />
+ *   <StatusMessageList maxVisible={3} order="newest-first" />
+ * </StatusMessageProvider>
+ * ```
+ *
+ * @see {@link StatusMessageListProps}
+ * @see {@link StatusMessageProvider}
+ */
+
+import { type JSX } from "react";
+import { Box, Text } from "tinky";
+import { useComponentTheme } from "tinky-theme";
+import { useStatusMessageTranslate } from "../hooks/use-status-message-translate.js";
+import { useStatusMessages } from "../hooks/use-status-messages.js";
+import { type StatusMessageListThemeProps } from "../themes/status-message-list-theme.js";
+import statusMessageListTheme from "../themes/status-message-list-theme.js";
+import { type StatusMessageListOrder } from "../types/status-message-queue-types.js";
+import { StatusMessage } from "./StatusMessage.js";
+
+/**
+ * Props for the StatusMessageList component.
+ */
+export interface StatusMessageListProps {
+  /**
+   * Maximum number of messages to render. The newest messages are kept.
+   * All messages are rendered when omitted.
+   */
+  readonly maxVisible?: number;
+
+  /**
+   * Order in which messages are rendered.
+   *
+   * @default "newest-last"
+   */
+  readonly order?: StatusMessageListOrder;
+
+  /**
+   * Whether to render a "+N more" summary for messages hidden by `maxVisible`.
+   *
+   * @default true
+   */
+  readonly showOverflow?: boolean;
+
+  /**
+   * Whether to render the time repeated messages were last seen.
+   *
+   * @default false
+   */
+  readonly showLastSeen?: boolean;
+}
+
+/**
+ * Renders the status message queue of the nearest `StatusMessageProvider`.
+ *
+ * @param {StatusMessageListProps} props - Component props
+ * @param {number} [props.maxVisible] - Maximum number of visible messages
+ * @param {StatusMessageListOrder} [props.order="newest-last"] - Render order
+ * @param {boolean} [props.showOverflow=true] - Whether to summarize hidden messages
+ * @param {boolean} [props.showLastSeen=false] - Whether to render last-seen times
+ *
+ * @returns {JSX.Element} The rendered list of status messages
+ *
+ * The overflow summary is placed on the side of the list where the hidden,
+ * older messages would appear: at the bottom for `newest-first` and at the
+ * top for `newest-last`.
+ *
+ * @throws {Error} When rendered outside of a `StatusMessageProvider`
+ *
+ * @see {@link StatusMessageListProps}
+ * @see {@link statusMessageListTheme}
+ */
+export function StatusMessageList({
+  maxVisible,
+  order = "newest-last",
+  showOverflow = true,
+  showLastSeen = false,
+}: StatusMessageListProps): JSX.Element {
+  const { messages, dismiss } = useStatusMessages();
+  const translate = useStatusMessageTranslate();
+
+  const visibleCount = Math.min(
+    messages.length,
+    Math.max(0, maxVisible ?? messages.length),
+  );
+  const hiddenCount = messages.length - visibleCount;
+  const visible = messages.slice(messages.length - visibleCount);
+  const ordered = order === "newest-first" ? [...visible].reverse() : visible;
+
+  const { styles } = useComponentTheme<StatusMessageListThemeProps>(
+    "StatusMessageList",
+    statusMessageListTheme,
+    { hiddenCount },
+  );
+
+  const overflow = showOverflow && hiddenCount > 0 && (
+    <Text {...styles.overflow}>
+      {translate("list.moreMessages", { count: hiddenCount })}
+    </Text>
+  );
+
+  return (
+    <Box {...styles.container}>
+      {order === "newest-last" && overflow}
+      {ordered.map((entry) => (
+        <StatusMessage
+          key={entry.id}
+          variant={entry.variant}
+          title={entry.title}
+          details={entry.details}
+          duration={entry.duration}
+          progress={entry.progress}
+          timestamp={entry.timestamp}
+          count={entry.count}
+          lastSeen={
+            showLastSeen && entry.count > 1 ? entry.lastSeen : undefined
+          }
+          onExpire={() => dismiss(entry.id)}
+        >
+          {entry.message}
+        </StatusMessage>
+      ))}
+      {order === "newest-first" && overflow}
+    </Box>
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * StatusMessageLocaleProvider component implementation.
+ *
+ * This module provides the StatusMessageLocaleProvider component, which
+ * translates the strings status messages produce on their own: accessible
+ * labels, summaries such as `42 more lines`, relative times and progress
+ * labels. Passing another `locale` or `messages` swaps the catalog at
+ * runtime.
+ *
+ * @example
+ * ```tsx
+ * import {
+ *   StatusMessage,
+ *   StatusMessageLocaleProvider,
+ * } from "tinky-status-message";
+ *
+ * <StatusMessageLocaleProvider
+ *   locale="de"
+ *   messages={{
+ *     "label.error": "Fehler",
+ *     "details.moreLines": {
+ *       one: "{count} weitere Zeile",
+ *       other: "{count} weitere Zeilen",
+ *     },
+ *   }}
+ * >
+ *   <StatusMessage variant="error" details={log} collapsible>
+ *     Build fehlgeschlagen
+ *   </StatusMessage>
+ * </StatusMessageLocaleProvider>
+ * // ✘ Build fehlgeschlagen
+ * //   ▸ 42 weitere Zeilen
+ * ```
+ *
+ * @see {@link StatusMessageLocaleProviderProps}
+ * @see {@link statusMessageCatalog}
+ */
+
+import { type JSX, type ReactNode, useContext, useMemo } from "react";
+import { StatusMessageLocaleContext } from "../contexts/status-message-locale-context.js";
+import {
+  createStatusMessageTranslate,
+  type StatusMessageCatalog,
+} from "../utils/messages.js";
+
+/**
+ * Props for the StatusMessageLocaleProvider component.
+ */
+export interface StatusMessageLocaleProviderProps {
+  /**
+   * The subtree whose status messages are translated.
+   */
+  readonly children?: ReactNode;
+
+  /**
+   * BCP 47 locale selecting the plural rules, e.g. `ja` or `de`. Inherited
+   * from the enclosing provider, or `en`, when omitted.
+   */
+  readonly locale?: string;
+
+  /**
+   * Catalog entries merged over the catalog of the enclosing provider, or
+   * the default English catalog.
+   */
+  readonly messages?: Partial<StatusMessageCatalog>;
+}
+
+/**
+ * Selects the locale and message catalog of status messages.
+ *
+ * @param {StatusMessageLocaleProviderProps} props - Component props
+ * @param {ReactNode} [props.children] - Subtree whose messages are translated
+ * @param {string} [props.locale] - Locale selecting the plural rules
+ * @param {Partial<StatusMessageCatalog>} [props.messages] - Catalog entries to override
+ *
+ * @returns {JSX.Element} The provider wrapping its children
+ *
+ * Variant labels translate through `label.<variant>` entries, which the
+ * English catalog leaves to the `label` of the variant definitions.
+ */
+export function StatusMessageLocaleProvider({
+  children,
+  locale,
+  messages,
+}: StatusMessageLocaleProviderProps): JSX.Element {
+  const parent = useContext(StatusMessageLocaleContext);
+  const resolvedLocale = locale ?? parent.locale;
+
+  const value = useMemo(() => {
+    const catalog = { ...parent.catalog, ...messages } as StatusMessageCatalog;
+
+    return {
+      locale: resolvedLocale,
+      catalog,
+      translate: createStatusMessageTranslate(resolvedLocale, catalog),
+    };
+  }, [parent.catalog, messages, resolvedLocale]);
+
+  return (
+    <StatusMessageLocaleContext.Provider value={value}>
+      {children}
+    </StatusMessageLocaleContext.Provider>
+  );
+}
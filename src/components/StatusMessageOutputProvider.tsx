@@ -0,0 +1,113 @@
+/**
+ * StatusMessageOutputProvider component implementation.
+ *
+ * This module provides the StatusMessageOutputProvider component, which
+ * switches the status messages below it to CI annotation output when a CI
+ * environment is detected or an annotation format is selected explicitly,
+ * and selects accessible rendering for the whole app.
+ *
+ * @example
+ * ```tsx
+ * import { StatusMessageOutputProvider } from "tinky-status-message";
+ *
+ * <StatusMessageOutputProvider>
+ *   <StatusMessage variant="error" file="src/index.ts" line={3}>
+ *     Missing semicolon
+ *   </StatusMessage>
+ * </StatusMessageOutputProvider>
+ * // In GitHub Actions: ::error file=src/index.ts,line=3::Missing semicolon
+ * ```
+ *
+ * @see {@link detectCiAnnotationFormat}
+ * @see {@link formatCiAnnotation}
+ */
+
+import { type JSX, type ReactNode, useMemo } from "react";
+import { useApp } from "tinky";
+import { StatusMessageOutputContext } from "../contexts/status-message-output-context.js";
+import {
+  type CiAnnotationFormat,
+  detectCiAnnotationFormat,
+} from "../utils/ci.js";
+
+/**
+ * Output modes of StatusMessageOutputProvider.
+ *
+ * - `auto`: Annotations when a CI environment is detected, interactive otherwise
+ * - `interactive`: Always render messages interactively
+ * - `github` / `plain`: Always output annotations in that format
+ */
+export type StatusMessageOutputMode =
+  "auto" | "interactive" | CiAnnotationFormat;
+
+/**
+ * Props for the StatusMessageOutputProvider component.
+ */
+export interface StatusMessageOutputProviderProps {
+  /**
+   * The subtree whose status messages follow the output mode.
+   */
+  readonly children?: ReactNode;
+
+  /**
+   * How status messages are output.
+   *
+   * @default "auto"
+   */
+  readonly mode?: StatusMessageOutputMode;
+
+  /**
+   * Environment used to detect CI in `auto` mode. Defaults to the env of the
+   * tinky app, or `process.env`.
+   */
+  readonly env?: Record<string, string | undefined>;
+
+  /**
+   * Whether messages render in accessible mode, with text labels such as
+   * `Error:` instead of decorative icons. Detected per message from the
+   * screen reader setting, `NO_COLOR` and `TERM=dumb` when omitted.
+   */
+  readonly accessible?: boolean;
+}
+
+/**
+ * Selects interactive or CI annotation output for status messages.
+ *
+ * @param {StatusMessageOutputProviderProps} props - Component props
+ * @param {ReactNode} [props.children] - Subtree following the output mode
+ * @param {StatusMessageOutputMode} [props.mode="auto"] - Output mode
+ * @param {Record<string, string | undefined>} [props.env] - Environment for detection
+ * @param {boolean} [props.accessible] - Force accessible mode on or off
+ *
+ * @returns {JSX.Element} The provider wrapping its children
+ *
+ * In annotation mode each status message writes one annotation to stdout
+ * instead of rendering its icon layout.
+ */
+export function StatusMessageOutputProvider({
+  children,
+  mode = "auto",
+  env,
+  accessible,
+}: StatusMessageOutputProviderProps): JSX.Element {
+  const app = useApp();
+  const detectionEnv = env ?? app.env ?? process.env;
+
+  const annotationFormat =
+    mode === "auto"
+      ? detectCiAnnotationFormat(detectionEnv)
+      : mode === "interactive"
+        ? undefined
+        : mode;
+
+  const value = useMemo(
+    () => ({ annotationFormat, accessible }),
+    [annotationFormat, accessible],
+  );
+
+  return (
+    <StatusMessageOutputContext.Provider value={value}>
+      {children}
+    </StatusMessageOutputContext.Provider>
+  );
+}
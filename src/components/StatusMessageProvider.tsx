@@ -0,0 +1,212 @@
+/**
+ * StatusMessageProvider component implementation.
+ *
+ * This module provides the StatusMessageProvider component, which owns a queue
+ * of status messages that can be managed imperatively from anywhere below it
+ * through the `useStatusMessages()` hook and rendered with `StatusMessageList`.
+ *
+ * @example
+ * ```tsx
+ * import {
+ *   StatusMessageList,
+ *   StatusMessageProvider,
+ * } from "tinky-status-message";
+ *
+ * <StatusMessageProvider>
+ *   <App />
+ *   <StatusMessageList maxVisible={5} />
+ * </StatusMessageProvider>
+ * ```
+ *
+ * @example
+ * Collapsing repeats seen within a minute:
+ * ```tsx
+ * <StatusMessageProvider dedupe={{ window: 60_000 }}>
+ *   <App />
+ *   <StatusMessageList showLastSeen />
+ * </StatusMessageProvider>
+ * // ⚠ Unused variable "x" ×5 last seen 14:03:12
+ * ```
+ *
+ * @see {@link useStatusMessages}
+ * @see {@link StatusMessageList}
+ */
+
+import {
+  type JSX,
+  type ReactNode,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  StatusMessagesContext,
+  type StatusMessagesContextValue,
+} from "../contexts/status-messages-context.js";
+import {
+  type StatusMessageDedupePolicy,
+  type StatusMessageEntry,
+  type StatusMessageInput,
+  type StatusMessageUpdate,
+} from "../types/status-message-queue-types.js";
+import { getDedupeKey, resolveDedupePolicy } from "../utils/dedupe.js";
+import { type StatusLogger } from "../utils/status-logger.js";
+
+/**
+ * Props for the StatusMessageProvider component.
+ */
+export interface StatusMessageProviderProps {
+  /**
+   * The subtree that can access the status message queue.
+   */
+  readonly children?: ReactNode;
+
+  /**
+   * Collapses repeated messages into a single entry whose `count` is
+   * incremented. Pass a policy to configure the time window and the key
+   * function.
+   *
+   * @default false
+   */
+  readonly dedupe?: boolean | StatusMessageDedupePolicy;
+
+  /**
+   * Logger from `createStatusLogger()` whose records are pushed to the
+   * queue while the provider is mounted.
+   */
+  readonly logger?: StatusLogger;
+}
+
+/**
+ * Provides a status message queue to its subtree.
+ *
+ * @param {StatusMessageProviderProps} props - Component props
+ * @param {ReactNode} [props.children] - Subtree with access to the queue
+ * @param {boolean | StatusMessageDedupePolicy} [props.dedupe=false] - Collapse repeats
+ * @param {StatusLogger} [props.logger] - Logger pushing its records to the queue
+ *
+ * @returns {JSX.Element} The provider wrapping its children
+ *
+ * Queue behavior:
+ * - `push` appends a message and returns its identifier; an identifier is
+ *   generated unless one is passed in
+ * - Pushing an identifier that is already queued replaces that message in
+ *   place
+ * - With `dedupe`, `push` collapses a repeat of a queued message into it,
+ *   incrementing its `count`, and returns the identifier of that message
+ * - `update` merges changes into a queued message
+ * - `dismiss` removes a single message
+ * - `clear` removes every message
+ *
+ * @see {@link useStatusMessages}
+ * @see {@link StatusMessageList}
+ */
+export function StatusMessageProvider({
+  children,
+  dedupe,
+  logger,
+}: StatusMessageProviderProps): JSX.Element {
+  const [messages, setMessages] = useState<readonly StatusMessageEntry[]>([]);
+  const messagesRef = useRef<readonly StatusMessageEntry[]>([]);
+  const nextId = useRef(0);
+  const policy = resolveDedupePolicy(dedupe);
+  const policyRef = useRef(policy);
+  policyRef.current = policy;
+
+  // Keeps the latest queue in a ref so `push` can find repeats synchronously.
+  const commit = useCallback(
+    (
+      change: (
+        previous: readonly StatusMessageEntry[],
+      ) => readonly StatusMessageEntry[],
+    ) => {
+      messagesRef.current = change(messagesRef.current);
+      setMessages(messagesRef.current);
+    },
+    [],
+  );
+
+  const push = useCallback(
+    (input: StatusMessageInput): string => {
+      const now = Date.now();
+      const currentPolicy = policyRef.current;
+
+      if (currentPolicy) {
+        const key = getDedupeKey(input, currentPolicy);
+        const window = currentPolicy.window ?? Infinity;
+        const repeated = messagesRef.current.find(
+          (message) =>
+            now - message.lastSeen <= window &&
+            getDedupeKey(message, currentPolicy) === key,
+        );
+
+        if (repeated) {
+          commit((previous) =>
+            previous.map((message) =>
+              message === repeated
+                ? {
+                    ...message,
+                    ...input,
+                    id: message.id,
+                    count: message.count + 1,
+                    lastSeen: now,
+                  }
+                : message,
+            ),
+          );
+
+          return repeated.id;
+        }
+      }
+
+      nextId.current += 1;
+      const id = input.id ?? `status-message-${nextId.current}`;
+      const entry = { ...input, id, count: 1, lastSeen: now };
+      commit((previous) =>
+        previous.some((message) => message.id === id)
+          ? previous.map((message) => (message.id === id ? entry : message))
+          : [...previous, entry],
+      );
+
+      return id;
+    },
+    [commit],
+  );
+
+  const update = useCallback(
+    (id: string, changes: StatusMessageUpdate) => {
+      commit((previous) =>
+        previous.map((message) =>
+          message.id === id ? { ...message, ...changes } : message,
+        ),
+      );
+    },
+    [commit],
+  );
+
+  const dismiss = useCallback(
+    (id: string) => {
+      commit((previous) => previous.filter((message) => message.id !== id));
+    },
+    [commit],
+  );
+
+  const clear = useCallback(() => {
+    commit(() => []);
+  }, [commit]);
+
+  useEffect(() => logger?.connect(push), [logger, push]);
+
+  const value = useMemo<StatusMessagesContextValue>(
+    () => ({ messages, push, update, dismiss, clear }),
+    [messages, push, update, dismiss, clear],
+  );
+
+  return (
+    <StatusMessagesContext.Provider value={value}>
+      {children}
+    </StatusMessagesContext.Provider>
+  );
+}
@@ -0,0 +1,131 @@
+/**
+ * StatusMessageSeverityProvider component implementation.
+ *
+ * This module provides the StatusMessageSeverityProvider component, which
+ * hides the status messages below it whose variant is less severe than
+ * `minSeverity`, e.g. to implement `--quiet` and `--verbose` flags in one
+ * place. Providers nest to override the threshold for a subtree.
+ *
+ * @example
+ * ```tsx
+ * import {
+ *   StatusMessage,
+ *   StatusMessageSeverityProvider,
+ * } from "tinky-status-message";
+ *
+ * <StatusMessageSeverityProvider
+ *   minSeverity={flags.verbose ? "debug" : "info"}
+ *   showHiddenCount
+ * >
+ *   <StatusMessage variant="debug">Resolved 42 modules</StatusMessage>
+ *   <StatusMessage variant="success">Built in 1.2s</StatusMessage>
+ * </StatusMessageSeverityProvider>
+ * // ✔ Built in 1.2s
+ * // 1 message hidden
+ * ```
+ *
+ * @see {@link StatusMessageSeverityProviderProps}
+ */
+
+import {
+  type JSX,
+  type ReactNode,
+  useCallback,
+  useContext,
+  useMemo,
+  useState,
+} from "react";
+import { Text } from "tinky";
+import { useComponentTheme } from "tinky-theme";
+import { StatusMessageSeverityContext } from "../contexts/status-message-severity-context.js";
+import { useStatusMessageTranslate } from "../hooks/use-status-message-translate.js";
+import { type StatusMessageThemeProps } from "../themes/status-message-theme.js";
+import statusMessageTheme from "../themes/status-message-theme.js";
+import { type StatusMessageSeverityThreshold } from "../types/status-message-types.js";
+import { resolveSeverityThreshold } from "../utils/variants.js";
+
+/**
+ * Props for the StatusMessageSeverityProvider component.
+ */
+export interface StatusMessageSeverityProviderProps {
+  /**
+   * The subtree whose status messages are filtered.
+   */
+  readonly children?: ReactNode;
+
+  /**
+   * Least severe messages that render: a severity such as `warning`, which
+   * stands for its default level, or a numeric level compared against the
+   * `level` of the variant definitions. Inherited from the enclosing
+   * provider when omitted.
+   */
+  readonly minSeverity?: StatusMessageSeverityThreshold;
+
+  /**
+   * Whether to render a "N messages hidden" summary after the children.
+   * Without it, hidden messages count towards the summary of the enclosing
+   * provider.
+   *
+   * @default false
+   */
+  readonly showHiddenCount?: boolean;
+}
+
+/**
+ * Hides status messages below a minimum severity.
+ *
+ * @param {StatusMessageSeverityProviderProps} props - Component props
+ * @param {ReactNode} [props.children] - Subtree whose messages are filtered
+ * @param {StatusMessageSeverityThreshold} [props.minSeverity] - Least severe messages that render
+ * @param {boolean} [props.showHiddenCount=false] - Render the number of hidden messages
+ *
+ * @returns {JSX.Element} The provider wrapping its children
+ *
+ * Messages are compared by the `level` of their variant definition, so
+ * custom variants take part in filtering. `StatusMessageGroup` leaves hidden
+ * messages out of its summary.
+ */
+export function StatusMessageSeverityProvider({
+  children,
+  minSeverity,
+  showHiddenCount = false,
+}: StatusMessageSeverityProviderProps): JSX.Element {
+  const parent = useContext(StatusMessageSeverityContext);
+  const [hiddenCount, setHiddenCount] = useState(0);
+  const translate = useStatusMessageTranslate();
+  const { styles } = useComponentTheme<StatusMessageThemeProps>(
+    "StatusMessage",
+    statusMessageTheme,
+    { variant: "info" },
+  );
+
+  const countHidden = useCallback(() => {
+    setHiddenCount((count) => count + 1);
+
+    return () => {
+      setHiddenCount((count) => count - 1);
+    };
+  }, []);
+
+  const minLevel =
+    minSeverity === undefined
+      ? parent.minLevel
+      : resolveSeverityThreshold(minSeverity);
+  const reportHidden = showHiddenCount ? countHidden : parent.reportHidden;
+
+  const value = useMemo(
+    () => ({ minLevel, reportHidden }),
+    [minLevel, reportHidden],
+  );
+
+  return (
+    <StatusMessageSeverityContext.Provider value={value}>
+      {children}
+      {showHiddenCount && hiddenCount > 0 && (
+        <Text {...styles.hiddenCount}>
+          {translate("severity.hiddenMessages", { count: hiddenCount })}
+        </Text>
+      )}
+    </StatusMessageSeverityContext.Provider>
+  );
+}
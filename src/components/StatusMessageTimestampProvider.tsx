@@ -0,0 +1,102 @@
+/**
+ * StatusMessageTimestampProvider component implementation.
+ *
+ * This module provides the StatusMessageTimestampProvider component, which
+ * selects how the `timestamp` of the status messages below it is rendered:
+ * as an absolute time of day or relative to the current time.
+ *
+ * @example
+ * ```tsx
+ * import {
+ *   StatusMessage,
+ *   StatusMessageTimestampProvider,
+ * } from "tinky-status-message";
+ *
+ * <StatusMessageTimestampProvider format="relative">
+ *   <StatusMessage variant="success" timestamp={startedAt}>
+ *     Deployed
+ *   </StatusMessage>
+ * </StatusMessageTimestampProvider>
+ * // ✔ Deployed 2m ago
+ * ```
+ *
+ * @see {@link StatusMessageTimestampProviderProps}
+ */
+
+import { type JSX, type ReactNode, useMemo } from "react";
+import { StatusMessageTimestampContext } from "../contexts/status-message-timestamp-context.js";
+import {
+  formatClockTime,
+  type StatusMessageClock,
+  type StatusMessageTimestampFormat,
+} from "../utils/time.js";
+
+/**
+ * Props for the StatusMessageTimestampProvider component.
+ */
+export interface StatusMessageTimestampProviderProps {
+  /**
+   * The subtree whose timestamps are formatted.
+   */
+  readonly children?: ReactNode;
+
+  /**
+   * Whether timestamps render as a time of day or as the time elapsed.
+   *
+   * @default "absolute"
+   */
+  readonly format?: StatusMessageTimestampFormat;
+
+  /**
+   * Formats absolute timestamps.
+   *
+   * @default formatClockTime
+   */
+  readonly formatTime?: (time: Date) => string;
+
+  /**
+   * Source of the current time for relative timestamps. Inject a fixed
+   * clock for deterministic output.
+   *
+   * @default Date.now
+   */
+  readonly clock?: StatusMessageClock;
+
+  /**
+   * Milliseconds between re-renders of relative timestamps.
+   *
+   * @default 1000
+   */
+  readonly refreshInterval?: number;
+}
+
+/**
+ * Selects how status message timestamps are rendered.
+ *
+ * @param {StatusMessageTimestampProviderProps} props - Component props
+ * @param {ReactNode} [props.children] - Subtree whose timestamps are formatted
+ * @param {StatusMessageTimestampFormat} [props.format="absolute"] - Absolute or relative
+ * @param {(time: Date) => string} [props.formatTime] - Absolute time formatter
+ * @param {StatusMessageClock} [props.clock=Date.now] - Source of the current time
+ * @param {number} [props.refreshInterval=1000] - Re-render interval of relative times
+ *
+ * @returns {JSX.Element} The provider wrapping its children
+ */
+export function StatusMessageTimestampProvider({
+  children,
+  format = "absolute",
+  formatTime = formatClockTime,
+  clock = Date.now,
+  refreshInterval = 1000,
+}: StatusMessageTimestampProviderProps): JSX.Element {
+  const value = useMemo(
+    () => ({ format, formatTime, clock, refreshInterval }),
+    [format, formatTime, clock, refreshInterval],
+  );
+
+  return (
+    <StatusMessageTimestampContext.Provider value={value}>
+      {children}
+    </StatusMessageTimestampContext.Provider>
+  );
+}
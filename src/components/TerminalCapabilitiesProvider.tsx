@@ -0,0 +1,105 @@
+/**
+ * TerminalCapabilitiesProvider component implementation.
+ *
+ * This module provides the TerminalCapabilitiesProvider component, which
+ * detects the capabilities of the terminal once and shares them with the
+ * status messages below it. Individual capabilities can be overridden, e.g.
+ * to force ASCII figures.
+ *
+ * @example
+ * ```tsx
+ * import { TerminalCapabilitiesProvider } from "tinky-status-message";
+ *
+ * <TerminalCapabilitiesProvider capabilities={{ unicode: false }}>
+ *   <StatusMessage variant="success">Deployed</StatusMessage>
+ * </TerminalCapabilitiesProvider>
+ * // √ Deployed
+ * ```
+ *
+ * @see {@link detectTerminalCapabilities}
+ */
+
+import { type JSX, type ReactNode, useMemo } from "react";
+import { useApp } from "tinky";
+import { TerminalCapabilitiesContext } from "../contexts/terminal-capabilities-context.js";
+import {
+  detectTerminalCapabilities,
+  type TerminalCapabilities,
+} from "../utils/terminal-capabilities.js";
+
+/**
+ * Props for the TerminalCapabilitiesProvider component.
+ */
+export interface TerminalCapabilitiesProviderProps {
+  /**
+   * The subtree using the capabilities.
+   */
+  readonly children?: ReactNode;
+
+  /**
+   * Environment used for detection. Defaults to the env of the tinky app, or
+   * `process.env`.
+   */
+  readonly env?: Record<string, string | undefined>;
+
+  /**
+   * Platform used for detection. Defaults to the platform of the tinky app,
+   * or `process.platform`.
+   */
+  readonly platform?: string;
+
+  /**
+   * Capabilities overriding the detected ones.
+   */
+  readonly capabilities?: Partial<TerminalCapabilities>;
+}
+
+/**
+ * Provides detected terminal capabilities to status messages.
+ *
+ * @param {TerminalCapabilitiesProviderProps} props - Component props
+ * @param {ReactNode} [props.children] - Subtree using the capabilities
+ * @param {Record<string, string | undefined>} [props.env] - Environment for detection
+ * @param {string} [props.platform] - Platform for detection
+ * @param {Partial<TerminalCapabilities>} [props.capabilities] - Overrides
+ *
+ * @returns {JSX.Element} The provider wrapping its children
+ */
+export function TerminalCapabilitiesProvider({
+  children,
+  env,
+  platform,
+  capabilities,
+}: TerminalCapabilitiesProviderProps): JSX.Element {
+  const app = useApp();
+  const detectionEnv = env ?? app.env ?? process.env;
+  const detectionPlatform = platform ?? app.platform;
+  const { unicode, colorDepth, hyperlinks, emojiWidth } = capabilities ?? {};
+
+  const value = useMemo(() => {
+    const detected = detectTerminalCapabilities(
+      detectionEnv,
+      detectionPlatform,
+    );
+
+    return {
+      unicode: unicode ?? detected.unicode,
+      colorDepth: colorDepth ?? detected.colorDepth,
+      hyperlinks: hyperlinks ?? detected.hyperlinks,
+      emojiWidth: emojiWidth ?? detected.emojiWidth,
+    };
+  }, [
+    detectionEnv,
+    detectionPlatform,
+    unicode,
+    colorDepth,
+    hyperlinks,
+    emojiWidth,
+  ]);
+
+  return (
+    <TerminalCapabilitiesContext.Provider value={value}>
+      {children}
+    </TerminalCapabilitiesContext.Provider>
+  );
+}
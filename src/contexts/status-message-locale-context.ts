@@ -0,0 +1,41 @@
+/**
+ * React context holding the locale and message catalog of status messages.
+ *
+ * The context is provided by `StatusMessageLocaleProvider`. Without a
+ * provider, built-in strings come from the default English catalog.
+ */
+
+import { createContext } from "react";
+import {
+  type StatusMessageCatalog,
+  statusMessageCatalog,
+  type StatusMessageTranslate,
+  translateStatusMessage,
+} from "../utils/messages.js";
+
+/**
+ * Value exposed by the status message locale context.
+ */
+export interface StatusMessageLocaleContextValue {
+  /**
+   * BCP 47 locale selecting the plural rules.
+   */
+  readonly locale: string;
+
+  /**
+   * The message catalog.
+   */
+  readonly catalog: StatusMessageCatalog;
+
+  /**
+   * Translates catalog keys.
+   */
+  readonly translate: StatusMessageTranslate;
+}
+
+export const StatusMessageLocaleContext =
+  createContext<StatusMessageLocaleContextValue>({
+    locale: "en",
+    catalog: statusMessageCatalog,
+    translate: translateStatusMessage,
+  });
@@ -0,0 +1,29 @@
+/**
+ * React context selecting how status messages are output.
+ *
+ * The context is provided by `StatusMessageOutputProvider`. Without a
+ * provider, status messages render interactively and detect accessible
+ * mode on their own.
+ */
+
+import { createContext } from "react";
+import { type CiAnnotationFormat } from "../utils/ci.js";
+
+/**
+ * Value exposed by the status message output context.
+ */
+export interface StatusMessageOutputContextValue {
+  /**
+   * Annotation format to output messages in, or undefined to render them
+   * interactively.
+   */
+  readonly annotationFormat?: CiAnnotationFormat;
+
+  /**
+   * Whether messages render in accessible mode, or undefined to detect it.
+   */
+  readonly accessible?: boolean;
+}
+
+export const StatusMessageOutputContext =
+  createContext<StatusMessageOutputContextValue>({});
@@ -0,0 +1,29 @@
+/**
+ * React context holding the minimum severity of status messages.
+ *
+ * The context is provided by `StatusMessageSeverityProvider`. Without a
+ * provider, messages of every severity render.
+ */
+
+import { createContext } from "react";
+
+/**
+ * Value exposed by the status message severity context.
+ */
+export interface StatusMessageSeverityContextValue {
+  /**
+   * Lowest severity level that renders, or undefined to render all messages.
+   */
+  readonly minLevel?: number;
+
+  /**
+   * Reports a message hidden by `minLevel`. Returns a function withdrawing
+   * the report when the message unmounts or shows again.
+   */
+  readonly reportHidden: () => () => void;
+}
+
+export const StatusMessageSeverityContext =
+  createContext<StatusMessageSeverityContextValue>({
+    reportHidden: () => () => undefined,
+  });
@@ -0,0 +1,44 @@
+/**
+ * React context holding the timestamp settings of status messages.
+ *
+ * The context is provided by `StatusMessageTimestampProvider`. Without a
+ * provider, timestamps render as absolute `HH:MM:SS` times read from
+ * `Date.now`.
+ */
+
+import { createContext } from "react";
+import {
+  formatClockTime,
+  type StatusMessageClock,
+  type StatusMessageTimestampFormat,
+} from "../utils/time.js";
+
+export interface StatusMessageTimestampContextValue {
+  /**
+   * Whether timestamps render absolute or relative.
+   */
+  readonly format: StatusMessageTimestampFormat;
+
+  /**
+   * Formats absolute timestamps.
+   */
+  readonly formatTime: (time: Date) => string;
+
+  /**
+   * Source of the current time.
+   */
+  readonly clock: StatusMessageClock;
+
+  /**
+   * Milliseconds between re-renders of relative timestamps.
+   */
+  readonly refreshInterval: number;
+}
+
+export const StatusMessageTimestampContext =
+  createContext<StatusMessageTimestampContextValue>({
+    format: "absolute",
+    formatTime: formatClockTime,
+    clock: Date.now,
+    refreshInterval: 1000,
+  });
@@ -0,0 +1,12 @@
+/**
+ * React context holding the variant of the enclosing status message.
+ *
+ * Elements rendered inside a message body, such as `StatusMessage.Link`,
+ * resolve their theme styles for this variant.
+ */
+
+import { createContext } from "react";
+import { type StatusMessageVariant } from "../types/status-message-types.js";
+
+export const StatusMessageVariantContext =
+  createContext<StatusMessageVariant>("info");
@@ -0,0 +1,48 @@
+/**
+ * React context holding the status message queue.
+ *
+ * The context is provided by `StatusMessageProvider` and consumed through
+ * `useStatusMessages()` and `StatusMessageList`.
+ */
+
+import { createContext } from "react";
+import {
+  type StatusMessageEntry,
+  type StatusMessageInput,
+  type StatusMessageUpdate,
+} from "../types/status-message-queue-types.js";
+
+/**
+ * Value exposed by the status message context.
+ */
+export interface StatusMessagesContextValue {
+  /**
+   * Messages currently in the queue, oldest first.
+   */
+  readonly messages: readonly StatusMessageEntry[];
+
+  /**
+   * Adds a message to the queue and returns its identifier. A message
+   * pushed with the identifier of a queued message replaces it in place.
+   */
+  readonly push: (message: StatusMessageInput) => string;
+
+  /**
+   * Updates a queued message in place. Unknown identifiers are ignored.
+   */
+  readonly update: (id: string, update: StatusMessageUpdate) => void;
+
+  /**
+   * Removes a message from the queue. Unknown identifiers are ignored.
+   */
+  readonly dismiss: (id: string) => void;
+
+  /**
+   * Removes every message from the queue.
+   */
+  readonly clear: () => void;
+}
+
+export const StatusMessagesContext = createContext<
+  StatusMessagesContextValue | undefined
+>(undefined);
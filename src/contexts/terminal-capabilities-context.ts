@@ -0,0 +1,14 @@
+/**
+ * React context holding the detected terminal capabilities.
+ *
+ * The context is provided by `TerminalCapabilitiesProvider`. Without a
+ * provider, `useTerminalCapabilities()` detects the capabilities from the
+ * env and platform of the tinky app.
+ */
+
+import { createContext } from "react";
+import { type TerminalCapabilities } from "../utils/terminal-capabilities.js";
+
+export const TerminalCapabilitiesContext = createContext<
+  TerminalCapabilities | undefined
+>(undefined);
@@ -0,0 +1,26 @@
+/**
+ * Hook deciding whether status messages render in accessible mode.
+ */
+
+import { useContext } from "react";
+import { useApp, useIsScreenReaderEnabled } from "tinky";
+import { StatusMessageOutputContext } from "../contexts/status-message-output-context.js";
+import { detectAccessibleMode } from "../utils/accessibility.js";
+
+/**
+ * Returns whether status messages render in accessible mode.
+ *
+ * @returns {boolean} The mode selected by `StatusMessageOutputProvider`, or
+ *   when none is selected, whether a screen reader is enabled or the app env
+ *   asks for it (`NO_COLOR`, `TERM=dumb`)
+ */
+export function useAccessibleMode(): boolean {
+  const { accessible } = useContext(StatusMessageOutputContext);
+  const isScreenReaderEnabled = useIsScreenReaderEnabled();
+  const app = useApp();
+
+  return (
+    accessible ??
+    (isScreenReaderEnabled || detectAccessibleMode(app.env ?? process.env))
+  );
+}
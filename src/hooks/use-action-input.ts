@@ -0,0 +1,31 @@
+/**
+ * Hook wiring the keyboard actions of a status message to tinky's input
+ * handling.
+ */
+
+import { useInput } from "tinky";
+import { type StatusMessageAction } from "../types/status-message-types.js";
+import { matchesActionKey } from "../utils/action-keys.js";
+
+/**
+ * Calls the action matching each keypress while active.
+ *
+ * @param {readonly StatusMessageAction[]} actions - Actions of the message
+ * @param {boolean} isActive - Whether keypresses are handled, e.g. while the
+ *   message is focused
+ *
+ * Only the first action matching a keypress is called.
+ */
+export function useActionInput(
+  actions: readonly StatusMessageAction[],
+  isActive: boolean,
+): void {
+  useInput(
+    (input, key) => {
+      actions
+        .find((action) => matchesActionKey(action.key, input, key))
+        ?.onAction();
+    },
+    { isActive: isActive && actions.length > 0 },
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * Hook holding the expanded state of a collapsible region.
+ */
+
+import { useCallback, useState } from "react";
+
+/**
+ * Options for `useCollapsible`.
+ */
+export interface CollapsibleOptions {
+  /**
+   * Expanded state controlled by the parent. The state is kept internally
+   * when undefined.
+   */
+  expanded?: boolean;
+
+  /**
+   * Initial state when uncontrolled.
+   */
+  defaultExpanded?: boolean;
+
+  /**
+   * Called with the requested state when the region is toggled.
+   */
+  onToggle?: (expanded: boolean) => void;
+}
+
+/**
+ * Returns whether a region is expanded and a function toggling it.
+ *
+ * @param {CollapsibleOptions} options - Controlled state and callbacks
+ * @returns {[boolean, () => void]} The current state and the toggle
+ *
+ * Controlled regions only report the requested state through `onToggle`;
+ * the parent decides whether to apply it.
+ */
+export function useCollapsible({
+  expanded,
+  defaultExpanded = false,
+  onToggle,
+}: CollapsibleOptions): [boolean, () => void] {
+  const [uncontrolled, setUncontrolled] = useState(defaultExpanded);
+  const isExpanded = expanded ?? uncontrolled;
+
+  const toggle = useCallback(() => {
+    if (expanded === undefined) {
+      setUncontrolled(!isExpanded);
+    }
+
+    onToggle?.(!isExpanded);
+  }, [expanded, isExpanded, onToggle]);
+
+  return [isExpanded, toggle];
+}
@@ -0,0 +1,120 @@
+/**
+ * Hook driving the auto-dismiss timer of a status message.
+ *
+ * The timer counts down in steps of at most one second using `setTimeout`
+ * only, so it can be driven by fake timers in tests.
+ */
+
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * Interval between countdown updates, in milliseconds.
+ */
+const tickInterval = 1000;
+
+/**
+ * Options for `useExpiryTimer`.
+ */
+export interface ExpiryTimerOptions {
+  /**
+   * Time in milliseconds before the timer expires. The timer is disabled
+   * when undefined or not a finite number.
+   */
+  duration?: number;
+
+  /**
+   * Whether the countdown is paused.
+   */
+  paused?: boolean;
+
+  /**
+   * Restarts the timer when it changes, e.g. when a deduplicated message is
+   * repeated.
+   */
+  restartKey?: unknown;
+
+  /**
+   * Called once when the timer expires.
+   */
+  onExpire?: () => void;
+}
+
+/**
+ * State returned by `useExpiryTimer`.
+ */
+export interface ExpiryTimerState {
+  /**
+   * Whether the timer has expired.
+   */
+  expired: boolean;
+
+  /**
+   * Remaining time in milliseconds, or undefined when the timer is disabled.
+   */
+  remaining?: number;
+}
+
+/**
+ * Counts down `duration` milliseconds and calls `onExpire` when it elapses.
+ *
+ * @param {ExpiryTimerOptions} options - Timer options
+ * @returns {ExpiryTimerState} Whether the timer expired and the remaining time
+ *
+ * Changing `duration` or `restartKey` restarts the timer. While `paused` is
+ * true the countdown stops and resumes from the last whole step.
+ */
+export function useExpiryTimer({
+  duration,
+  paused = false,
+  restartKey,
+  onExpire,
+}: ExpiryTimerOptions): ExpiryTimerState {
+  const enabled = duration !== undefined && Number.isFinite(duration);
+  const [timer, setTimer] = useState({
+    duration,
+    restartKey,
+    remaining: duration,
+  });
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  // Restart the countdown when the duration or the restart key changes.
+  const current =
+    timer.duration === duration && Object.is(timer.restartKey, restartKey)
+      ? timer
+      : { duration, restartKey, remaining: duration };
+  if (current !== timer) {
+    setTimer(current);
+  }
+
+  const remaining = enabled ? Math.max(0, current.remaining ?? 0) : undefined;
+  const expired = remaining === 0;
+
+  useEffect(() => {
+    if (remaining === undefined || paused || expired) {
+      return;
+    }
+
+    const step = Math.min(remaining, tickInterval);
+    const timeout = setTimeout(() => {
+      setTimer((previous) =>
+        previous.duration === duration &&
+        Object.is(previous.restartKey, restartKey)
+          ? { ...previous, remaining: remaining - step }
+          : previous,
+      );
+    }, step);
+
+    return () => {
+      clearTimeout(timeout);
+    };
+  }, [duration, restartKey, remaining, paused, expired]);
+
+  useEffect(() => {
+    if (expired) {
+      onExpireRef.current?.();
+    }
+  }, [expired]);
+
+  return { expired, remaining };
+}
@@ -0,0 +1,53 @@
+/**
+ * Hook formatting the timestamp of a status message.
+ */
+
+import { useContext, useEffect, useState } from "react";
+import { StatusMessageTimestampContext } from "../contexts/status-message-timestamp-context.js";
+import { useStatusMessageTranslate } from "./use-status-message-translate.js";
+import { formatRelativeTime } from "../utils/time.js";
+
+/**
+ * Formats a timestamp following the nearest `StatusMessageTimestampProvider`.
+ *
+ * @param {Date | number} [timestamp] - Date or milliseconds since the epoch
+ * @returns {string | undefined} The formatted timestamp, or undefined when
+ *   no timestamp is passed
+ *
+ * Relative timestamps re-render every `refreshInterval` milliseconds; no
+ * timer runs for absolute ones. They are worded by the catalog of the
+ * nearest `StatusMessageLocaleProvider`.
+ */
+export function useFormattedTimestamp(
+  timestamp: Date | number | undefined,
+): string | undefined {
+  const { format, formatTime, clock, refreshInterval } = useContext(
+    StatusMessageTimestampContext,
+  );
+  const translate = useStatusMessageTranslate();
+  const relative = format === "relative" && timestamp !== undefined;
+  const [now, setNow] = useState(clock);
+
+  useEffect(() => {
+    if (!relative) {
+      return;
+    }
+
+    setNow(clock());
+    const timer = setInterval(() => {
+      setNow(clock());
+    }, refreshInterval);
+
+    return () => {
+      clearInterval(timer);
+    };
+  }, [relative, clock, refreshInterval]);
+
+  if (timestamp === undefined) {
+    return undefined;
+  }
+
+  return relative
+    ? formatRelativeTime(timestamp, now, translate)
+    : formatTime(new Date(timestamp));
+}
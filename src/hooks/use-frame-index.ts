@@ -0,0 +1,42 @@
+/**
+ * Hook cycling through the frames of an animated icon.
+ */
+
+import { useEffect, useState } from "react";
+
+/**
+ * Default interval between animation frames, in milliseconds.
+ */
+const defaultInterval = 80;
+
+/**
+ * Returns the index of the current animation frame.
+ *
+ * @param {number} frameCount - Number of frames in the animation
+ * @param {number} [interval=80] - Milliseconds between frames
+ * @returns {number} Index of the frame to display
+ *
+ * No timer runs for animations with a single frame.
+ */
+export function useFrameIndex(
+  frameCount: number,
+  interval: number = defaultInterval,
+): number {
+  const [frame, setFrame] = useState(0);
+
+  useEffect(() => {
+    if (frameCount <= 1) {
+      return;
+    }
+
+    const timer = setInterval(() => {
+      setFrame((previous) => (previous + 1) % frameCount);
+    }, interval);
+
+    return () => {
+      clearInterval(timer);
+    };
+  }, [frameCount, interval]);
+
+  return frameCount > 0 ? frame % frameCount : 0;
+}
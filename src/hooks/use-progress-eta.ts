@@ -0,0 +1,43 @@
+/**
+ * Hook estimating the time left until progress completes.
+ */
+
+import { useContext, useRef } from "react";
+import { StatusMessageTimestampContext } from "../contexts/status-message-timestamp-context.js";
+
+/**
+ * Estimates the milliseconds left from the rate of progress so far.
+ *
+ * @param {number} [fraction] - Completed fraction from 0 to 1, undefined for
+ *   indeterminate progress
+ * @returns {number | undefined} The estimate, or undefined until progress has
+ *   advanced and once it is complete
+ *
+ * The rate is measured from the first fraction seen, reading the time from
+ * the clock of the nearest `StatusMessageTimestampProvider`.
+ */
+export function useProgressEta(
+  fraction: number | undefined,
+): number | undefined {
+  const { clock } = useContext(StatusMessageTimestampContext);
+  const start = useRef<{ time: number; fraction: number } | undefined>(
+    undefined,
+  );
+
+  if (fraction === undefined) {
+    start.current = undefined;
+    return undefined;
+  }
+
+  const now = clock();
+  if (!start.current || fraction < start.current.fraction) {
+    start.current = { time: now, fraction };
+  }
+
+  const advanced = fraction - start.current.fraction;
+  if (advanced <= 0 || fraction >= 1) {
+    return undefined;
+  }
+
+  return ((now - start.current.time) / advanced) * (1 - fraction);
+}
@@ -0,0 +1,52 @@
+/**
+ * Hook tracking the settlement of a promise.
+ */
+
+import { useEffect, useState } from "react";
+
+/**
+ * Settlement state of a promise.
+ */
+export type PromiseState<T> =
+  | { status: "pending" }
+  | { status: "fulfilled"; value: T }
+  | { status: "rejected"; reason: unknown };
+
+/**
+ * Tracks whether `promise` is pending, fulfilled or rejected.
+ *
+ * @param {PromiseLike<T>} promise - The promise to track
+ * @returns {PromiseState<T>} The current settlement state
+ *
+ * Passing a different promise resets the state to pending. Results of a
+ * promise that was replaced, or that settles after unmount, are ignored.
+ */
+export function usePromiseState<T>(promise: PromiseLike<T>): PromiseState<T> {
+  const [state, setState] = useState<{
+    promise: PromiseLike<T>;
+    result: PromiseState<T>;
+  }>({ promise, result: { status: "pending" } });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    promise.then(
+      (value) => {
+        if (!cancelled) {
+          setState({ promise, result: { status: "fulfilled", value } });
+        }
+      },
+      (reason: unknown) => {
+        if (!cancelled) {
+          setState({ promise, result: { status: "rejected", reason } });
+        }
+      },
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [promise]);
+
+  return state.promise === promise ? state.result : { status: "pending" };
+}
@@ -0,0 +1,47 @@
+/**
+ * Hook deciding whether a status message is hidden by its severity.
+ */
+
+import { useContext, useEffect } from "react";
+import { useComponentTheme } from "tinky-theme";
+import { StatusMessageSeverityContext } from "../contexts/status-message-severity-context.js";
+import { type StatusMessageThemeProps } from "../themes/status-message-theme.js";
+import statusMessageTheme from "../themes/status-message-theme.js";
+import { type StatusMessageVariant } from "../types/status-message-types.js";
+import {
+  resolveSeverityLevel,
+  resolveThemeConfig,
+  resolveVariant,
+} from "../utils/variants.js";
+
+/**
+ * Returns whether a message of `variant` is below the `minSeverity` of the
+ * nearest `StatusMessageSeverityProvider`.
+ *
+ * @param {StatusMessageVariant} variant - Variant of the message
+ * @returns {boolean} Whether the message renders nothing
+ *
+ * Hidden messages are reported to the provider for its "N messages hidden"
+ * summary while they stay mounted.
+ */
+export function useSeverityFilter(variant: StatusMessageVariant): boolean {
+  const { minLevel, reportHidden } = useContext(StatusMessageSeverityContext);
+  const themeProps = { variant };
+  const { config } = useComponentTheme<StatusMessageThemeProps>(
+    "StatusMessage",
+    statusMessageTheme,
+    themeProps,
+  );
+
+  const level = resolveSeverityLevel(
+    resolveVariant(resolveThemeConfig(config, themeProps).variants, variant),
+  );
+  const hidden = minLevel !== undefined && level < minLevel;
+
+  useEffect(
+    () => (hidden ? reportHidden() : undefined),
+    [hidden, reportHidden],
+  );
+
+  return hidden;
+}
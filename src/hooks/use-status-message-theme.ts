@@ -0,0 +1,41 @@
+/**
+ * Hook resolving the StatusMessage theme with array overrides kept whole.
+ */
+
+import { type ComponentTheme, useComponentTheme } from "tinky-theme";
+import { type StatusMessageThemeProps } from "../themes/status-message-theme.js";
+import statusMessageTheme from "../themes/status-message-theme.js";
+import { replaceMergedArrays } from "../utils/variants.js";
+
+/**
+ * Empty default theme, used to read the `ThemeProvider` override alone.
+ */
+const noDefaults: ComponentTheme<StatusMessageThemeProps> = {};
+
+/**
+ * Resolves the StatusMessage theme like `useComponentTheme`.
+ *
+ * @param {StatusMessageThemeProps} props - The theme props
+ * @returns {object} The resolved styles and config
+ *
+ * `useComponentTheme` deep-merges arrays index by index, so a 2-frame
+ * spinner override would keep the tail of the default frames. Arrays of the
+ * `ThemeProvider` override replace the default arrays instead.
+ */
+export function useStatusMessageTheme(props: StatusMessageThemeProps) {
+  const theme = useComponentTheme<StatusMessageThemeProps>(
+    "StatusMessage",
+    statusMessageTheme,
+    props,
+  );
+  const { config: overrides } = useComponentTheme<StatusMessageThemeProps>(
+    "StatusMessage",
+    noDefaults,
+    props,
+  );
+
+  return {
+    ...theme,
+    config: replaceMergedArrays(theme.config, overrides),
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * Hook translating the built-in strings of status messages.
+ */
+
+import { useContext } from "react";
+import { StatusMessageLocaleContext } from "../contexts/status-message-locale-context.js";
+import { type StatusMessageTranslate } from "../utils/messages.js";
+
+/**
+ * Returns the translate function of the nearest
+ * `StatusMessageLocaleProvider`.
+ *
+ * @returns {StatusMessageTranslate} Function formatting catalog entries, of
+ *   the default English catalog without a provider
+ *
+ * @example
+ * ```tsx
+ * const translate = useStatusMessageTranslate();
+ *
+ * <Text>{translate("list.moreMessages", { count: 3 })}</Text>;
+ * // +3 more
+ * ```
+ */
+export function useStatusMessageTranslate(): StatusMessageTranslate {
+  return useContext(StatusMessageLocaleContext).translate;
+}
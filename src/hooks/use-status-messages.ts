@@ -0,0 +1,45 @@
+/**
+ * Hook for imperatively managing the status message queue.
+ */
+
+import { useContext } from "react";
+import {
+  StatusMessagesContext,
+  type StatusMessagesContextValue,
+} from "../contexts/status-messages-context.js";
+
+/**
+ * Returns the status message queue of the nearest `StatusMessageProvider`.
+ *
+ * @returns {StatusMessagesContextValue} The queued messages together with
+ *   `push`, `update`, `dismiss` and `clear`
+ *
+ * @throws {Error} When called outside of a `StatusMessageProvider`
+ *
+ * @example
+ * ```tsx
+ * import { useStatusMessages } from "tinky-status-message";
+ *
+ * function Deploy() {
+ *   const { push, update } = useStatusMessages();
+ *
+ *   useEffect(() => {
+ *     const id = push({ variant: "info", message: "Deploying…" });
+ *     deploy().then(() => update(id, { variant: "success", message: "Deployed" }));
+ *   }, []);
+ *
+ *   return null;
+ * }
+ * ```
+ */
+export function useStatusMessages(): StatusMessagesContextValue {
+  const context = useContext(StatusMessagesContext);
+
+  if (!context) {
+    throw new Error(
+      "useStatusMessages() must be used within a <StatusMessageProvider>",
+    );
+  }
+
+  return context;
+}
@@ -0,0 +1,44 @@
+/**
+ * Hook reading the capabilities of the terminal.
+ */
+
+import { useContext, useMemo } from "react";
+import { useApp } from "tinky";
+import { TerminalCapabilitiesContext } from "../contexts/terminal-capabilities-context.js";
+import {
+  detectTerminalCapabilities,
+  type TerminalCapabilities,
+} from "../utils/terminal-capabilities.js";
+
+/**
+ * Returns the capabilities of the terminal status messages render to.
+ *
+ * @returns {TerminalCapabilities} The capabilities provided by the nearest
+ *   `TerminalCapabilitiesProvider`, or when there is none, the capabilities
+ *   detected from the env and platform of the tinky app
+ *
+ * @example
+ * ```tsx
+ * import { useTerminalCapabilities } from "tinky-status-message";
+ *
+ * function Bullet() {
+ *   const { unicode } = useTerminalCapabilities();
+ *
+ *   return <Text>{unicode ? "•" : "*"}</Text>;
+ * }
+ * ```
+ */
+export function useTerminalCapabilities(): TerminalCapabilities {
+  const context = useContext(TerminalCapabilitiesContext);
+  const { env, platform } = useApp();
+
+  const detected = useMemo(
+    () =>
+      context
+        ? undefined
+        : detectTerminalCapabilities(env ?? process.env, platform),
+    [context, env, platform],
+  );
+
+  return context ?? (detected as TerminalCapabilities);
+}
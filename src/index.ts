@@ -10,7 +10,35 @@
  * - `statusMessageTheme` - Default theme configuration for StatusMessage components
  * - `StatusMessageTheme` - TypeScript type for the StatusMessage theme
  * - `StatusMessageThemeProps` - TypeScript interface for StatusMessage theme functions
- * - `isUnicodeSupported` - Utility function for detecting Unicode support in terminals
+ * - `statusMessageVariants` - Built-in variant registry (color, icon, severity, level)
+ * - `statusMessagePresets` - Bundled `minimal`, `emoji`, `bracketed` and `highContrast` themes
+ * - `StatusMessageVariantRegistry` - Interface to augment with custom variant names
+ * - `StatusMessageIconResolver` - Theme-level resolver of icons per variant
+ * - `detectTerminalCapabilities` - Detects Unicode, color depth, hyperlink and emoji width support
+ * - `TerminalCapabilitiesProvider` - Shares detected or overridden terminal capabilities
+ * - `useTerminalCapabilities` - Hook reading the terminal capabilities
+ * - `StatusMessageLink` - Hyperlink inside a message, also available as `StatusMessage.Link`
+ * - `formatHyperlink` - Formats an OSC 8 hyperlink or its `text (url)` fallback
+ * - `parseMarkup` - Parses the opt-in inline markup of string messages
+ * - `StatusMessageProgress` - Progress value rendered as a bar after a message
+ * - `measureText` - Measures the terminal columns of text with wide characters
+ * - `isUnicodeSupported` - Compatibility wrapper for detecting Unicode support
+ * - `StatusMessageProvider` - Provider owning an imperatively managed message queue
+ * - `useStatusMessages` - Hook exposing `push`, `update`, `dismiss` and `clear`
+ * - `StatusMessageList` - Outlet rendering the queued messages
+ * - `StatusMessageGroup` - Groups messages under a per-variant summary line
+ * - `StatusMessageTimestampProvider` - Selects absolute or relative timestamps and the clock
+ * - `StatusMessageSeverityProvider` - Hides messages below a minimum severity
+ * - `statusMessageSeverityLevels` - Default levels of the semantic severities
+ * - `StatusMessageLocaleProvider` - Swaps the locale and catalog of built-in strings
+ * - `statusMessageCatalog` - Default English catalog of built-in strings
+ * - `createStatusMessageTranslate` - Creates a translate function with plural rules
+ * - `useStatusMessageTranslate` - Hook returning the translate function in scope
+ * - `ErrorMessage` - StatusMessage for thrown values with causes and stack traces
+ * - `formatStatusMessage` - Renders a status message to a plain string outside React
+ * - `createStatusLogger` - Bridges level-based and JSON-line loggers to the message queue
+ * - `StatusMessageOutputProvider` - Switches status messages to CI annotation output
+ *   and selects accessible rendering
  *
  * @example
  * Basic usage:
@@ -39,14 +67,164 @@
  * @see {@link statusMessageTheme}
  */
 
+export {
+  ErrorMessage,
+  type ErrorMessageProps,
+} from "./components/ErrorMessage.js";
 export {
   StatusMessage,
+  type StatusMessagePromiseProps,
   type StatusMessageProps,
 } from "./components/StatusMessage.js";
+export {
+  StatusMessageList,
+  type StatusMessageListProps,
+} from "./components/StatusMessageList.js";
+export {
+  StatusMessageGroup,
+  type StatusMessageGroupProps,
+  type StatusMessageGroupSort,
+} from "./components/StatusMessageGroup.js";
+export {
+  StatusMessageLink,
+  type StatusMessageLinkProps,
+} from "./components/StatusMessageLink.js";
+export {
+  StatusMessageLocaleProvider,
+  type StatusMessageLocaleProviderProps,
+} from "./components/StatusMessageLocaleProvider.js";
+export {
+  StatusMessageOutputProvider,
+  type StatusMessageOutputMode,
+  type StatusMessageOutputProviderProps,
+} from "./components/StatusMessageOutputProvider.js";
+export {
+  StatusMessageProvider,
+  type StatusMessageProviderProps,
+} from "./components/StatusMessageProvider.js";
+export {
+  StatusMessageSeverityProvider,
+  type StatusMessageSeverityProviderProps,
+} from "./components/StatusMessageSeverityProvider.js";
+export {
+  StatusMessageTimestampProvider,
+  type StatusMessageTimestampProviderProps,
+} from "./components/StatusMessageTimestampProvider.js";
+export {
+  TerminalCapabilitiesProvider,
+  type TerminalCapabilitiesProviderProps,
+} from "./components/TerminalCapabilitiesProvider.js";
+export { type StatusMessagesContextValue } from "./contexts/status-messages-context.js";
+export { useStatusMessageTranslate } from "./hooks/use-status-message-translate.js";
+export { useStatusMessages } from "./hooks/use-status-messages.js";
+export { useTerminalCapabilities } from "./hooks/use-terminal-capabilities.js";
+export {
+  default as statusMessageGroupTheme,
+  type StatusMessageGroupCountFormatter,
+  type StatusMessageGroupTheme,
+  type StatusMessageGroupThemeProps,
+} from "./themes/status-message-group-theme.js";
+export {
+  default as statusMessageListTheme,
+  type StatusMessageListTheme,
+  type StatusMessageListThemeProps,
+} from "./themes/status-message-list-theme.js";
+export {
+  default as statusMessagePresets,
+  type StatusMessagePresetName,
+} from "./themes/status-message-presets.js";
 export {
   default as statusMessageTheme,
   type StatusMessageTheme,
   type StatusMessageThemeProps,
 } from "./themes/status-message-theme.js";
-export { type StatusMessageVariant } from "./types/status-message-types.js";
+export { default as statusMessageVariants } from "./themes/status-message-variants.js";
+export {
+  type StatusMessageDedupePolicy,
+  type StatusMessageEntry,
+  type StatusMessageInput,
+  type StatusMessageListOrder,
+  type StatusMessageUpdate,
+} from "./types/status-message-queue-types.js";
+export {
+  type StatusMessageAction,
+  type StatusMessageFigures,
+  type StatusMessageGlyph,
+  type StatusMessageIconOverride,
+  type StatusMessageIconResolver,
+  type StatusMessageIcon,
+  type StatusMessageLayout,
+  type StatusMessageSeverity,
+  type StatusMessageSeverityThreshold,
+  type StatusMessageTextStyle,
+  type StatusMessageTimestampPosition,
+  type StatusMessageVariant,
+  type StatusMessageVariantDefinition,
+  type StatusMessageVariantDefinitions,
+  type StatusMessageVariantRegistry,
+} from "./types/status-message-types.js";
+export { detectAccessibleMode } from "./utils/accessibility.js";
+export {
+  detectCiAnnotationFormat,
+  formatCiAnnotation,
+  type CiAnnotationFormat,
+  type CiAnnotationInput,
+} from "./utils/ci.js";
+export {
+  describeError,
+  isUserStackFrame,
+  type DescribeErrorOptions,
+  type ErrorDescription,
+} from "./utils/errors.js";
+export {
+  formatStatusMessage,
+  type FormatStatusMessageOptions,
+  type StatusMessageFormatInput,
+} from "./utils/format-status-message.js";
+export { formatHyperlink } from "./utils/hyperlink.js";
+export {
+  parseMarkup,
+  stripMarkup,
+  type MarkupSpan,
+  type MarkupSpanType,
+} from "./utils/markup.js";
+export {
+  createStatusMessageTranslate,
+  statusMessageCatalog,
+  translateStatusMessage,
+  type StatusMessageCatalog,
+  type StatusMessageMessageKey,
+  type StatusMessageMessageParams,
+  type StatusMessagePluralForms,
+  type StatusMessageText,
+  type StatusMessageTranslate,
+} from "./utils/messages.js";
+export { type StatusMessageProgress } from "./utils/progress.js";
+export {
+  createStatusLogger,
+  formatLogFields,
+  statusLogLevels,
+  type StatusLogger,
+  type StatusLoggerOptions,
+  type StatusLogLevel,
+  type StatusLogRecord,
+  type StatusLogStream,
+} from "./utils/status-logger.js";
+export {
+  detectTerminalCapabilities,
+  type TerminalCapabilities,
+  type TerminalColorDepth,
+} from "./utils/terminal-capabilities.js";
+export { measureText } from "./utils/text-width.js";
+export {
+  formatClockTime,
+  formatRelativeTime,
+  type StatusMessageClock,
+  type StatusMessageTimestampFormat,
+} from "./utils/time.js";
 export { isUnicodeSupported } from "./utils/unicode.js";
+export {
+  statusMessageSeverityLevels,
+  type StatusMessageThemeConfig,
+} from "./utils/variants.js";
+export { type StatusMessageWrap } from "./utils/wrap.js";
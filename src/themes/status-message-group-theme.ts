@@ -0,0 +1,237 @@
+/**
+ * Theme configuration and styling for StatusMessageGroup components.
+ *
+ * This module provides the default theme configuration for
+ * StatusMessageGroup, which wraps several status messages under a summary
+ * line such as `✘ 3 errors  ⚠ 5 warnings`.
+ *
+ * The module exports:
+ * 1. `statusMessageGroupTheme` - Complete theme with styles and config
+ * 2. `StatusMessageGroupTheme` - Type definition of the theme
+ * 3. `StatusMessageGroupThemeProps` - Props interface for theme functions
+ *
+ * @example
+ * Overriding the summary format via theme extension:
+ * ```tsx
+ * import { extendTheme } from "tinky-theme";
+ *
+ * const customTheme = extendTheme(defaultTheme, {
+ *   components: {
+ *     StatusMessageGroup: {
+ *       config: {
+ *         formatCount: (count, variant) => `${variant}: ${count}`,
+ *       },
+ *     },
+ *   },
+ * });
+ * ```
+ *
+ * @see {@link StatusMessageGroupTheme}
+ * @see {@link StatusMessageGroup}
+ */
+
+import { type BoxProps, type TextProps } from "tinky";
+import { type ComponentTheme } from "tinky-theme";
+import { type StatusMessageVariant } from "../types/status-message-types.js";
+import {
+  type StatusMessageTranslate,
+  translateStatusMessage,
+} from "../utils/messages.js";
+
+/**
+ * Props interface for StatusMessageGroup theme functions.
+ *
+ * @interface StatusMessageGroupThemeProps
+ *
+ * @property {Partial<Record<StatusMessageVariant, number>>} counts - Number
+ *   of grouped messages per variant.
+ */
+export interface StatusMessageGroupThemeProps {
+  counts: Partial<Record<StatusMessageVariant, number>>;
+}
+
+/**
+ * Formats the count of one variant in the summary line and in subheadings,
+ * e.g. `3 errors`. `translate` is the translate function of the nearest
+ * `StatusMessageLocaleProvider`.
+ */
+export type StatusMessageGroupCountFormatter = (
+  count: number,
+  variant: StatusMessageVariant,
+  translate: StatusMessageTranslate,
+) => string;
+
+/**
+ * Default count format, e.g. `1 error` or `5 warnings`, from the
+ * `group.count.<variant>` catalog entries. Custom variants without an entry
+ * fall back to `group.count` with their name.
+ */
+const formatCount: StatusMessageGroupCountFormatter = (
+  count,
+  variant,
+  translate = translateStatusMessage,
+) =>
+  translate(`group.count.${variant}`, {
+    count,
+    defaultValue: translate("group.count", { count, variant }),
+  });
+
+/**
+ * Default theme configuration for StatusMessageGroup components.
+ *
+ * Style functions:
+ * - `styles.container()` - BoxProps for the group container
+ * - `styles.summary()` - BoxProps for the summary line
+ * - `styles.summaryCount()` - TextProps for each count in the summary
+ * - `styles.section()` - BoxProps for a per-variant section
+ * - `styles.subheading()` - TextProps for the count heading a section
+ * - `styles.items()` - BoxProps for the messages of the group or a section
+ *
+ * Config:
+ * - `config.formatCount` - Formats counts such as `3 errors`
+ *
+ * @see {@link StatusMessageGroupTheme}
+ * @see {@link StatusMessageGroupProps}
+ */
+const statusMessageGroupTheme = {
+  styles: {
+    /**
+     * Style function for the group container.
+     *
+     * @returns {BoxProps} Props for rendering the group container
+     *
+     * Applied styles:
+     * - `flexDirection: "column"` - Stacks the summary above the messages
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageGroupTheme } from "tinky-status-message";
+     *
+     * const containerStyles = statusMessageGroupTheme.styles.container();
+     * // Returns: { flexDirection: "column" }
+     * ```
+     */
+    container: (): BoxProps => ({
+      flexDirection: "column",
+    }),
+
+    /**
+     * Style function for the summary line.
+     *
+     * @returns {BoxProps} Props for the row of per-variant counts
+     *
+     * Applied styles:
+     * - `columnGap: 2` - Separates counts such as `✘ 3 errors  ⚠ 5 warnings`
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageGroupTheme } from "tinky-status-message";
+     *
+     * const summaryStyles = statusMessageGroupTheme.styles.summary();
+     * // Returns: { columnGap: 2 }
+     * ```
+     */
+    summary: (): BoxProps => ({
+      columnGap: 2,
+    }),
+
+    /**
+     * Style function for each count of the summary line.
+     *
+     * @returns {TextProps} Props for rendering counts such as `3 errors`
+     *
+     * The icon before each count takes the color of its variant.
+     *
+     * Applied styles:
+     * - `bold: true` - Emphasizes the counts
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageGroupTheme } from "tinky-status-message";
+     *
+     * const countStyles = statusMessageGroupTheme.styles.summaryCount();
+     * // Returns: { bold: true }
+     * ```
+     */
+    summaryCount: (): TextProps => ({
+      bold: true,
+    }),
+
+    /**
+     * Style function for a per-variant section.
+     *
+     * @returns {BoxProps} Props for a section of messages sharing a variant
+     *
+     * Sections are rendered when messages are grouped by variant.
+     *
+     * Applied styles:
+     * - `flexDirection: "column"` - Stacks the subheading above the messages
+     * - `marginTop: 1` - Separates sections
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageGroupTheme } from "tinky-status-message";
+     *
+     * const sectionStyles = statusMessageGroupTheme.styles.section();
+     * // Returns: { flexDirection: "column", marginTop: 1 }
+     * ```
+     */
+    section: (): BoxProps => ({
+      flexDirection: "column",
+      marginTop: 1,
+    }),
+
+    /**
+     * Style function for the subheading of a section.
+     *
+     * @returns {TextProps} Props for rendering subheadings such as `✘ 3 errors`
+     *
+     * Applied styles:
+     * - `bold: true` - Renders the subheading bold
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageGroupTheme } from "tinky-status-message";
+     *
+     * const subheadingStyles = statusMessageGroupTheme.styles.subheading();
+     * // Returns: { bold: true }
+     * ```
+     */
+    subheading: (): TextProps => ({
+      bold: true,
+    }),
+
+    /**
+     * Style function for the messages of the group or of a section.
+     *
+     * @returns {BoxProps} Props for the container of the messages
+     *
+     * Applied styles:
+     * - `flexDirection: "column"` - Stacks messages vertically
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageGroupTheme } from "tinky-status-message";
+     *
+     * const itemsStyles = statusMessageGroupTheme.styles.items();
+     * // Returns: { flexDirection: "column" }
+     * ```
+     */
+    items: (): BoxProps => ({
+      flexDirection: "column",
+    }),
+  },
+  config: {
+    formatCount,
+  },
+} satisfies ComponentTheme<StatusMessageGroupThemeProps>;
+
+export default statusMessageGroupTheme;
+
+/**
+ * Type definition for the StatusMessageGroup theme.
+ *
+ * @see {@link statusMessageGroupTheme}
+ * @see {@link StatusMessageGroupThemeProps}
+ */
+export type StatusMessageGroupTheme = typeof statusMessageGroupTheme;
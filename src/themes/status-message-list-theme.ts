@@ -0,0 +1,110 @@
+/**
+ * Theme configuration and styling for StatusMessageList components.
+ *
+ * This module provides the default theme configuration for StatusMessageList,
+ * the outlet that renders the status message queue of a
+ * `StatusMessageProvider`.
+ *
+ * The module exports:
+ * 1. `statusMessageListTheme` - Complete theme with styles
+ * 2. `StatusMessageListTheme` - Type definition of the theme
+ * 3. `StatusMessageListThemeProps` - Props interface for theme functions
+ *
+ * @example
+ * Customizing via theme extension:
+ * ```tsx
+ * import { extendTheme } from "tinky-theme";
+ *
+ * const customTheme = extendTheme(defaultTheme, {
+ *   components: {
+ *     StatusMessageList: {
+ *       styles: {
+ *         container: () => ({ flexDirection: "column", rowGap: 1 }),
+ *       },
+ *     },
+ *   },
+ * });
+ * ```
+ *
+ * @see {@link StatusMessageListTheme}
+ * @see {@link StatusMessageList}
+ */
+
+import { type BoxProps, type TextProps } from "tinky";
+import { type ComponentTheme } from "tinky-theme";
+
+/**
+ * Props interface for StatusMessageList theme functions.
+ *
+ * @interface StatusMessageListThemeProps
+ *
+ * @property {number} hiddenCount - Number of queued messages that are not
+ *   rendered because of `maxVisible`.
+ */
+export interface StatusMessageListThemeProps {
+  hiddenCount: number;
+}
+
+/**
+ * Default theme configuration for StatusMessageList components.
+ *
+ * Style functions:
+ * - `styles.container()` - BoxProps for the list container
+ * - `styles.overflow()` - TextProps for the "+N more" summary
+ *
+ * @see {@link StatusMessageListTheme}
+ * @see {@link StatusMessageListProps}
+ */
+const statusMessageListTheme = {
+  styles: {
+    /**
+     * Style function for the list container.
+     *
+     * @returns {BoxProps} Props for rendering the list container
+     *
+     * Applied styles:
+     * - `flexDirection: "column"` - Stacks messages vertically
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageListTheme } from "tinky-status-message";
+     *
+     * const containerStyles = statusMessageListTheme.styles.container();
+     * // Returns: { flexDirection: "column" }
+     * ```
+     */
+    container: (): BoxProps => ({
+      flexDirection: "column",
+    }),
+
+    /**
+     * Style function for the overflow summary.
+     *
+     * @returns {TextProps} Props for rendering the "+N more" summary
+     *
+     * Applied styles:
+     * - `dimColor: true` - Renders the summary dimmed
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageListTheme } from "tinky-status-message";
+     *
+     * const overflowStyles = statusMessageListTheme.styles.overflow();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    overflow: (): TextProps => ({
+      dimColor: true,
+    }),
+  },
+} satisfies ComponentTheme<StatusMessageListThemeProps>;
+
+export default statusMessageListTheme;
+
+/**
+ * Type definition for the StatusMessageList theme.
+ *
+ * @see {@link statusMessageListTheme}
+ * @see {@link StatusMessageListThemeProps}
+ */
+export type StatusMessageListTheme = typeof statusMessageListTheme;
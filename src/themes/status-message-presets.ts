@@ -0,0 +1,181 @@
+/**
+ * Bundled theme presets for StatusMessage components.
+ *
+ * Each preset is a `StatusMessage` theme entry that plugs into tinky-theme's
+ * `ThemeProvider` like `statusMessageTheme`. Presets only list what they
+ * change; `useComponentTheme` deep-merges them over the default theme, so
+ * they can be extended further the same way.
+ *
+ * Presets:
+ * - `minimal`: No icon, the title and message colored in the variant color
+ * - `emoji`: Emoji icons such as `✅`, `❌`, `⚠️` and `ℹ️`
+ * - `bracketed`: Fixed-width labels such as `[ERROR]` in place of icons
+ * - `highContrast`: Inverse icons and no dimmed text
+ *
+ * @example
+ * ```tsx
+ * import { ThemeProvider } from "tinky-theme";
+ * import { StatusMessage, statusMessagePresets } from "tinky-status-message";
+ *
+ * <ThemeProvider
+ *   theme={{ components: { StatusMessage: statusMessagePresets.bracketed } }}
+ * >
+ *   <StatusMessage variant="error">Build failed</StatusMessage>
+ *   <StatusMessage variant="info">Retrying in 5s</StatusMessage>
+ * </ThemeProvider>
+ * // [ERROR]   Build failed
+ * // [INFO]    Retrying in 5s
+ * ```
+ *
+ * @example
+ * Extending a preset:
+ * ```tsx
+ * <ThemeProvider
+ *   theme={{
+ *     components: {
+ *       StatusMessage: {
+ *         ...statusMessagePresets.emoji,
+ *         styles: { title: () => ({ bold: true, underline: true }) },
+ *       },
+ *     },
+ *   }}
+ * >
+ *   …
+ * </ThemeProvider>
+ * ```
+ *
+ * @see {@link statusMessageTheme}
+ */
+
+import { type BoxProps, type TextProps } from "tinky";
+import { type ComponentTheme } from "tinky-theme";
+import { type StatusMessageGlyph } from "../types/status-message-types.js";
+import { type StatusMessageThemeProps } from "./status-message-theme.js";
+
+/**
+ * Glyph drawn the same on Unicode and ASCII terminals.
+ */
+const sameGlyph = (text: string): StatusMessageGlyph => ({
+  unicode: text,
+  ascii: text,
+});
+
+/**
+ * No icon, with the title and message colored in the variant color of the
+ * theme registry. Accessible mode still shows the variant labels.
+ */
+const minimal = {
+  config: {
+    resolveIcon: () => false,
+    colorMessage: true,
+  },
+} satisfies ComponentTheme<StatusMessageThemeProps>;
+
+/**
+ * Emoji icons for the built-in variants, with the default ASCII fallbacks.
+ * `pending` keeps its spinner.
+ */
+const emoji = {
+  config: {
+    variants: {
+      info: { icon: { unicode: "ℹ️", ascii: "i" } },
+      success: { icon: { unicode: "✅", ascii: "√" } },
+      error: { icon: { unicode: "❌", ascii: "×" } },
+      warning: { icon: { unicode: "⚠️", ascii: "‼" } },
+      debug: { icon: { unicode: "🐛", ascii: "*" } },
+      tip: { icon: { unicode: "💡", ascii: "*" } },
+    },
+  },
+} satisfies ComponentTheme<StatusMessageThemeProps>;
+
+/**
+ * Bracketed labels such as `[ERROR]` in a fixed-width column, so messages
+ * line up like log output.
+ */
+const bracketed = {
+  styles: {
+    iconContainer: (): BoxProps => ({
+      flexShrink: 0,
+      minWidth: 9,
+    }),
+    icon: (): TextProps => ({
+      bold: true,
+    }),
+  },
+  config: {
+    variants: {
+      info: { icon: sameGlyph("[INFO]") },
+      success: { icon: sameGlyph("[SUCCESS]") },
+      error: { icon: sameGlyph("[ERROR]") },
+      warning: { icon: sameGlyph("[WARNING]") },
+      debug: { icon: sameGlyph("[DEBUG]") },
+      tip: { icon: sameGlyph("[TIP]") },
+      pending: { icon: sameGlyph("[PENDING]") },
+    },
+  },
+} satisfies ComponentTheme<StatusMessageThemeProps>;
+
+/**
+ * Icons and labels on an inverse background in the variant color, with
+ * dimmed text replaced by the terminal's full-intensity color.
+ */
+const highContrast = {
+  styles: {
+    icon: (): TextProps => ({
+      bold: true,
+      inverse: true,
+    }),
+    label: (): TextProps => ({
+      bold: true,
+      inverse: true,
+    }),
+    dim: (): TextProps => ({
+      italic: true,
+    }),
+    details: (): TextProps => ({}),
+    detailsSummary: (): TextProps => ({
+      italic: true,
+    }),
+    countdown: (): TextProps => ({}),
+    repeatCount: (): TextProps => ({
+      bold: true,
+    }),
+    lastSeen: (): TextProps => ({}),
+    timestamp: (): TextProps => ({}),
+    progressTrack: (): TextProps => ({}),
+    progressLabel: (): TextProps => ({}),
+    actionKey: (): TextProps => ({
+      bold: true,
+      inverse: true,
+    }),
+    inactiveAction: (): TextProps => ({}),
+    errorCode: (): TextProps => ({}),
+    errorCauseLabel: (): TextProps => ({
+      bold: true,
+    }),
+    stackFrame: (): TextProps => ({}),
+    stackSummary: (): TextProps => ({
+      italic: true,
+    }),
+    hiddenCount: (): TextProps => ({
+      italic: true,
+    }),
+  },
+} satisfies ComponentTheme<StatusMessageThemeProps>;
+
+/**
+ * Bundled StatusMessage theme presets.
+ */
+const statusMessagePresets = {
+  minimal,
+  emoji,
+  bracketed,
+  highContrast,
+};
+
+export default statusMessagePresets;
+
+/**
+ * Names of the bundled presets.
+ */
+export type StatusMessagePresetName = keyof typeof statusMessagePresets;
@@ -2,20 +2,22 @@
  * Theme configuration and styling for StatusMessage components.
  *
  * This module provides the default theme configuration for StatusMessage components,
- * including variant-specific colors and styling functions.
+ * including the variant registry and styling functions.
  *
  * The theme system supports:
- * - Four status message variants: info, success, error, warning
- * - Automatic color mapping for each variant
+ * - A variant registry in `config.variants` declaring color, icon and severity
+ * - Custom variants defined through the theme and module augmentation
  * - Variant-specific styling
  * - Consistent styling across all status message elements
  * - Integration with the tinky-theme system
  *
- * Variant configurations:
+ * Built-in variant configurations:
  * - info: Blue color with info symbol (`ℹ`/`i`)
  * - success: Green color with tick symbol (`✔`/`√`)
  * - error: Red color with cross symbol (`✘`/`×`)
  * - warning: Yellow color with warning symbol (`⚠`/`‼`)
+ * - debug: Gray color with bullet symbol (`●`/`*`)
+ * - tip: Cyan color with star symbol (`★`/`*`)
  *
  * The module exports:
  * 1. `statusMessageTheme` - Complete theme with styles
@@ -60,30 +62,13 @@
 
 import { type BoxProps, type TextProps } from "tinky";
 import { type ComponentTheme } from "tinky-theme";
-import { type StatusMessageVariant } from "../types/status-message-types.js";
-
-/**
- * Color mapping for status message variants.
- *
- * Maps each variant to its corresponding terminal color:
- * - info → blue
- * - success → green
- * - error → red
- * - warning → yellow
- *
- * These colors are used for:
- * - Icon color for visual emphasis
- * - Any other variant-specific styling
- *
- * @constant {Record<StatusMessageVariant, string>}
- * @private
- */
-const colorByVariant: Record<StatusMessageVariant, string> = {
-  success: "green",
-  error: "red",
-  warning: "yellow",
-  info: "blue",
-};
+import {
+  type StatusMessageIconResolver,
+  type StatusMessageTextStyle,
+  type StatusMessageTimestampPosition,
+  type StatusMessageVariant,
+} from "../types/status-message-types.js";
+import statusMessageVariants from "./status-message-variants.js";
 
 /**
  * Props interface for StatusMessage theme functions.
@@ -91,17 +76,16 @@ const colorByVariant: Record<StatusMessageVariant, string> = {
  * @interface StatusMessageThemeProps
  *
  * @property {StatusMessageVariant} variant - The status message variant
- *   determines the color scheme. Each variant has specific semantic meaning:
+ *   determines the color scheme. Each built-in variant has specific semantic meaning:
  *   - info: General information or neutral messages
  *   - success: Successful operations or confirmations
  *   - error: Error messages or failure notifications
  *   - warning: Warning messages or cautionary notes
+ *   - debug: Diagnostic output for troubleshooting
+ *   - tip: Hints and suggestions
  *
- * Variant visual characteristics:
- * - info: Blue color with info symbol (`ℹ`/`i`)
- * - success: Green color with tick symbol (`✔`/`√`)
- * - error: Red color with cross symbol (`✘`/`×`)
- * - warning: Yellow color with warning symbol (`⚠`/`‼`)
+ * Variant visual characteristics come from the registry in
+ * `statusMessageTheme.config.variants`.
  *
  * @example
  * ```typescript
@@ -124,13 +108,51 @@ export interface StatusMessageThemeProps {
  *
  * Theme structure:
  * - `styles` - Style functions for each component element
+ * - `config.variants` - Variant registry with color, icon, severity and level
+ * - `config.timestampPosition` - Whether timestamps go before or after
+ * - `config.progressWidth` - Maximum number of cells of progress bars
+ * - `config.resolveIcon` - Optional resolver overriding the icon of each variant
+ * - `config.colorMessage` - Whether the title and message take the variant color
  *
  * Style functions:
  * Each style function returns props for the corresponding component:
  * - `styles.container(props)` - BoxProps for the status message container
  * - `styles.iconContainer()` - BoxProps for the icon wrapper
- * - `styles.icon(props)` - TextProps for the icon character
- * - `styles.message()` - TextProps for the message text
+ * - `styles.icon()` - TextProps for the icon character
+ * - `styles.label()` - TextProps for the variant label in accessible mode
+ * - `styles.link()` - TextProps for hyperlinks in the message
+ * - `styles.emphasis()` - TextProps for `**emphasis**` markup
+ * - `styles.code()` - TextProps for `` `code` `` markup
+ * - `styles.dim()` - TextProps for `_dim_` markup
+ * - `styles.content()` - BoxProps for the title/body/details column
+ * - `styles.title()` - TextProps for the optional title
+ * - `styles.message()` - Text props and wrapping defaults for the message
+ * - `styles.messageLines()` - BoxProps for truncated or line-limited messages
+ * - `styles.detailsContainer()` - BoxProps for the details wrapper
+ * - `styles.details()` - TextProps for the optional details text
+ * - `styles.detailsSummary()` - TextProps for the summary of collapsible details
+ * - `styles.countdown()` - TextProps for the auto-dismiss countdown
+ * - `styles.repeatCount()` - TextProps for the `×N` repeat counter
+ * - `styles.lastSeen()` - TextProps for the time a repeat was last seen
+ * - `styles.timestamp()` - TextProps for the message timestamp
+ * - `styles.messageRow()` - BoxProps for the message and its progress
+ * - `styles.progress()` - BoxProps for the progress bar and label
+ * - `styles.progressBar()` - TextProps for the filled part of the bar
+ * - `styles.progressTrack()` - TextProps for the empty part of the bar
+ * - `styles.progressLabel()` - TextProps for the percentage and ETA
+ * - `styles.actions()` - BoxProps for the row of action key hints
+ * - `styles.actionKey()` - TextProps for the bracketed key of a hint
+ * - `styles.actionLabel()` - TextProps for the label of a hint
+ * - `styles.inactiveAction()` - TextProps for hints of an unfocused message
+ * - `styles.banner()` - BoxProps for the bordered box of the banner layout
+ * - `styles.bannerHeader()` - BoxProps for the icon and title row of a banner
+ * - `styles.errorCode()` - TextProps for the code of a rendered error
+ * - `styles.errorDetails()` - BoxProps for the causes and stack of an error
+ * - `styles.errorCause()` - BoxProps for a nested cause or aggregated error
+ * - `styles.errorCauseLabel()` - TextProps for the "Caused by:" label
+ * - `styles.stackFrame()` - TextProps for a stack trace frame
+ * - `styles.stackSummary()` - TextProps for the collapsed stack summary
+ * - `styles.hiddenCount()` - TextProps for the "N messages hidden" summary
  *
  * @example
  * Using the theme directly:
@@ -220,56 +242,827 @@ const statusMessageTheme = {
     /**
      * Style function for the icon text element.
      *
-     * @param {StatusMessageThemeProps} props - Props containing the variant
      * @returns {TextProps} Props for rendering the icon character
      *
-     * The icon is a variant-specific figure character selected in the component.
-     * Symbol selection is handled by `useFigures()` in `StatusMessage`.
+     * The icon is a variant-specific character resolved in the component from
+     * the variant registry, with figures provided by `useFigures()`. The icon
+     * color comes from the variant definition; styles returned here are
+     * applied on top of it.
+     *
+     * Applied styles:
+     * - (none) - Variant color from `config.variants` is used
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const successIconStyles = statusMessageTheme.styles.icon();
+     * // Returns: {}
+     * ```
+     */
+    icon: (): TextProps => ({}),
+
+    /**
+     * Style function for the variant label in accessible mode.
+     *
+     * @returns {TextProps} Props for rendering labels such as `Error:`
+     *
+     * In accessible mode the icon is replaced by the variant's `label` from
+     * the registry, followed by a colon. The label text itself is set in
+     * `config.variants`, so it can be localized through the theme.
+     *
+     * Applied styles:
+     * - `bold: true` - Sets the label apart from the message
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const labelStyles = statusMessageTheme.styles.label();
+     * // Returns: { bold: true }
+     * ```
+     */
+    label: (): TextProps => ({
+      bold: true,
+    }),
+
+    /**
+     * Style function for hyperlinks.
+     *
+     * @returns {TextProps} Props for rendering links
+     *
+     * Applies to the `href` link and to `StatusMessage.Link` elements inside
+     * the message. Without OSC 8 support the URL printed in parentheses
+     * after the link text is styled as well.
+     *
+     * Applied styles:
+     * - `color: "cyan"` - Distinguishes links from message text
+     * - `underline: true` - Marks the text as clickable
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const linkStyles = statusMessageTheme.styles.link();
+     * // Returns: { color: "cyan", underline: true }
+     * ```
+     */
+    link: (): TextProps => ({
+      color: "cyan",
+      underline: true,
+    }),
+
+    /**
+     * Style function for `**emphasis**` markup.
+     *
+     * @returns {TextProps} Props for emphasized spans
+     *
+     * Applies to string content parsed with `markup` enabled.
+     *
+     * Applied styles:
+     * - `bold: true` - Makes the span stand out
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const emphasisStyles = statusMessageTheme.styles.emphasis();
+     * // Returns: { bold: true }
+     * ```
+     */
+    emphasis: (): TextProps => ({
+      bold: true,
+    }),
+
+    /**
+     * Style function for `` `code` `` markup.
+     *
+     * @returns {TextProps} Props for code spans
+     *
+     * Highlights file names, commands and identifiers in string content
+     * parsed with `markup` enabled.
+     *
+     * Applied styles:
+     * - `color: "yellow"` - Sets code apart from prose and links
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const codeStyles = statusMessageTheme.styles.code();
+     * // Returns: { color: "yellow" }
+     * ```
+     */
+    code: (): TextProps => ({
+      color: "yellow",
+    }),
+
+    /**
+     * Style function for `_dim_` markup.
+     *
+     * @returns {TextProps} Props for dimmed spans
+     *
+     * De-emphasizes asides in string content parsed with `markup` enabled.
+     *
+     * Applied styles:
+     * - `dimColor: true` - Renders the span dimmed
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const dimStyles = statusMessageTheme.styles.dim();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    dim: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for the content column.
+     *
+     * @returns {BoxProps} Props for rendering the content column
+     *
+     * The content column stacks the title, message and details vertically
+     * next to the icon, so the first line shares the icon row.
      *
      * Applied styles:
-     * - `color: variant-specific` - Color based on variant
+     * - `flexDirection: "column"` - Stack title, message and details
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const contentStyles = statusMessageTheme.styles.content();
+     * // Returns: { flexDirection: "column" }
+     * ```
+     */
+    content: (): BoxProps => ({
+      flexDirection: "column",
+    }),
+
+    /**
+     * Style function for the title text element.
+     *
+     * @returns {TextProps} Props for rendering the title text
      *
-     * Icon mapping:
-     *      - info: Blue color
-     *      - success: Green color
-     *      - error: Red color
-     *      - warning: Yellow color
+     * The title is an optional short headline rendered on the icon row,
+     * above the message body.
+     *
+     * Applied styles:
+     * - `bold: true` - Emphasizes the title over the message body
      *
      * @example
      * ```typescript
      * import { statusMessageTheme } from "tinky-status-message";
      *
-     * const successIconStyles = statusMessageTheme.styles.icon({ variant: "success" });
-     * // Returns: { color: "green" }
+     * const titleStyles = statusMessageTheme.styles.title();
+     * // Returns: { bold: true }
      * ```
      */
-    icon: (props): TextProps => ({
-      color: colorByVariant[props.variant],
+    title: (): TextProps => ({
+      bold: true,
     }),
 
     /**
      * Style function for the message text element.
      *
-     * @returns {TextProps} Props for rendering the message text
+     * @returns {StatusMessageTextStyle} Props for rendering the message text
      *
      * The message is the main content of the status message, providing detailed
      * information about the status message's purpose.
      *
      * Applied styles:
-     * - (none) - Default text styling
+     * - `wrap: "hanging"` - Continuation lines align under the text
      *
      * The message uses normal text styling, allowing it to be more
-     * readable and less visually demanding than the colored icon.
+     * readable and less visually demanding than the colored icon. `wrap` and
+     * `maxLines` set the defaults of the matching `StatusMessage` props.
      *
      * @example
      * ```typescript
      * import { statusMessageTheme } from "tinky-status-message";
      *
      * const messageStyles = statusMessageTheme.styles.message();
+     * // Returns: { wrap: "hanging" }
+     * ```
+     */
+    message: (): StatusMessageTextStyle => ({
+      wrap: "hanging",
+    }),
+
+    /**
+     * Style function for the lines of a truncated or line-limited message.
+     *
+     * @returns {BoxProps} Props for the container measuring the width
+     *   available to the message
+     *
+     * Applied styles:
+     * - `flexDirection: "column"` - Stacks the laid out lines
+     * - `flexGrow: 1` - Takes the width left next to a progress bar
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const messageLinesStyles = statusMessageTheme.styles.messageLines();
+     * // Returns: { flexDirection: "column", flexGrow: 1 }
+     * ```
+     */
+    messageLines: (): BoxProps => ({
+      flexDirection: "column",
+      flexGrow: 1,
+    }),
+
+    /**
+     * Style function for the details container.
+     *
+     * @returns {BoxProps} Props for rendering the details wrapper
+     *
+     * The details container indents supplementary information such as
+     * hints or follow-up steps under the message body.
+     *
+     * Applied styles:
+     * - `flexDirection: "column"` - Stacks the summary and lines of
+     *   collapsible details
+     * - `paddingLeft: 2` - Indents details under the message
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const detailsContainerStyles =
+     *   statusMessageTheme.styles.detailsContainer();
+     * // Returns: { flexDirection: "column", paddingLeft: 2 }
+     * ```
+     */
+    detailsContainer: (): BoxProps => ({
+      flexDirection: "column",
+      paddingLeft: 2,
+    }),
+
+    /**
+     * Style function for the details text element.
+     *
+     * @returns {TextProps} Props for rendering the details text
+     *
+     * Details are secondary information and are rendered dimmed so they
+     * do not compete with the message body.
+     *
+     * Applied styles:
+     * - `dimColor: true` - Renders details dimmed
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const detailsStyles = statusMessageTheme.styles.details();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    details: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for the summary line of collapsible details.
+     *
+     * @returns {TextProps} Props for rendering summaries such as
+     *   `▸ 42 more lines`
+     *
+     * The summary replaces collapsed details, heads expanded details and
+     * counts the lines cut off by `maxDetailsLines`.
+     *
+     * Applied styles:
+     * - `dimColor: true` - Renders the summary dimmed
+     * - `italic: true` - Sets the summary apart from the details text
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const summaryStyles = statusMessageTheme.styles.detailsSummary();
+     * // Returns: { dimColor: true, italic: true }
+     * ```
+     */
+    detailsSummary: (): TextProps => ({
+      dimColor: true,
+      italic: true,
+    }),
+
+    /**
+     * Style function for the countdown indicator.
+     *
+     * @returns {TextProps} Props for rendering the remaining time
+     *
+     * The countdown shows the seconds left before an auto-dismissed message
+     * expires. It is only rendered when `showCountdown` is set.
+     *
+     * Applied styles:
+     * - `dimColor: true` - Renders the countdown dimmed
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const countdownStyles = statusMessageTheme.styles.countdown();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    countdown: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for the repeat counter.
+     *
+     * @returns {TextProps} Props for the repeat counter text
+     *
+     * The counter shows how many times a deduplicated message was pushed,
+     * e.g. `×5`. It is only rendered when `count` is greater than one.
+     *
+     * Applied styles:
+     * - `dimColor: true` - Renders the counter dimmed
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const repeatCountStyles = statusMessageTheme.styles.repeatCount();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    repeatCount: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for the last-seen time of a repeated message.
+     *
+     * @returns {TextProps} Props for the last-seen text
+     *
+     * The last-seen time, e.g. `last seen 14:03:12`, is only rendered when
+     * `lastSeen` is passed.
+     *
+     * Applied styles:
+     * - `dimColor: true` - Renders the time dimmed
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const lastSeenStyles = statusMessageTheme.styles.lastSeen();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    lastSeen: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for the timestamp of a message.
+     *
+     * @returns {TextProps} Props for the timestamp text
+     *
+     * The timestamp is only rendered when `timestamp` is passed. Its format
+     * is selected by `StatusMessageTimestampProvider`, and its position by
+     * `config.timestampPosition`.
+     *
+     * Applied styles:
+     * - `dimColor: true` - Renders the timestamp dimmed
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const timestampStyles = statusMessageTheme.styles.timestamp();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    timestamp: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for the row holding the message and its progress.
+     *
+     * @returns {BoxProps} Props for the message row
+     *
+     * Only used when `progress` is passed; other messages render the message
+     * text directly in the content column.
+     *
+     * Applied styles:
+     * - `columnGap: 1` - Separates the message from the progress bar
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const messageRowStyles = statusMessageTheme.styles.messageRow();
+     * // Returns: { columnGap: 1 }
+     * ```
+     */
+    messageRow: (): BoxProps => ({
+      columnGap: 1,
+    }),
+
+    /**
+     * Style function for the progress indicator.
+     *
+     * @returns {BoxProps} Props for the container of the bar and its label
+     *
+     * Applied styles:
+     * - `columnGap: 1` - Separates the bar from the percentage and ETA
+     * - `flexShrink: 0` - Keeps the bar from being squeezed by long messages
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const progressStyles = statusMessageTheme.styles.progress();
+     * // Returns: { columnGap: 1, flexShrink: 0 }
+     * ```
+     */
+    progress: (): BoxProps => ({
+      columnGap: 1,
+      flexShrink: 0,
+    }),
+
+    /**
+     * Style function for the filled part of a progress bar.
+     *
+     * @returns {TextProps} Props for the filled cells
+     *
+     * Applied styles:
+     * - (none) - Variant color from `config.variants` is used
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const progressBarStyles = statusMessageTheme.styles.progressBar();
+     * // Returns: {}
+     * ```
+     */
+    progressBar: (): TextProps => ({}),
+
+    /**
+     * Style function for the empty part of a progress bar.
+     *
+     * @returns {TextProps} Props for the empty cells
+     *
+     * Applied styles:
+     * - `dimColor: true` - Sets the track apart from the filled cells
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const progressTrackStyles = statusMessageTheme.styles.progressTrack();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    progressTrack: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for the percentage and ETA of a progress bar.
+     *
+     * @returns {TextProps} Props for the progress label, e.g. `42% · 12s left`
+     *
+     * Applied styles:
+     * - `dimColor: true` - Renders the label dimmed
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const progressLabelStyles = statusMessageTheme.styles.progressLabel();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    progressLabel: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for the row of action key hints.
+     *
+     * @returns {BoxProps} Props for the container of the key hints
+     *
+     * Applied styles:
+     * - `columnGap: 2` - Separates hints such as `[r] retry  [esc] dismiss`
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const actionsStyles = statusMessageTheme.styles.actions();
+     * // Returns: { columnGap: 2 }
+     * ```
+     */
+    actions: (): BoxProps => ({
+      columnGap: 2,
+    }),
+
+    /**
+     * Style function for the key of an action hint.
+     *
+     * @returns {TextProps} Props for rendering keys such as `[r]`
+     *
+     * Applied styles:
+     * - `bold: true` - Makes the key stand out from its label
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const keyStyles = statusMessageTheme.styles.actionKey();
+     * // Returns: { bold: true }
+     * ```
+     */
+    actionKey: (): TextProps => ({
+      bold: true,
+    }),
+
+    /**
+     * Style function for the label of an action hint.
+     *
+     * @returns {TextProps} Props for rendering labels such as `retry`
+     *
+     * Applied styles:
+     * - None by default
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const labelStyles = statusMessageTheme.styles.actionLabel();
      * // Returns: {}
      * ```
      */
-    message: (): TextProps => ({}),
+    actionLabel: (): TextProps => ({}),
+
+    /**
+     * Style function for the action hints of an unfocused message.
+     *
+     * @returns {TextProps} Props wrapping each hint while its message does
+     *   not have focus, so the focused message stands out when several
+     *   actionable messages are on screen
+     *
+     * Applied styles:
+     * - `dimColor: true` - Dims hints whose keys are currently inactive
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const inactiveStyles = statusMessageTheme.styles.inactiveAction();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    inactiveAction: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for the bordered box of the banner layout.
+     *
+     * @returns {BoxProps} Props for the banner box
+     *
+     * Banners are used for high-visibility messages such as release notes,
+     * breaking-change warnings and fatal errors. The border takes the variant
+     * color unless `borderColor` is set here. Without Unicode support the
+     * border falls back to the ASCII `classic` style, and accessible mode
+     * drops the border along with the padding keeping text off it.
+     *
+     * Applied styles:
+     * - `flexDirection: "column"` - Stacks the header above the body
+     * - `borderStyle: "round"` - Rounded border (`single` and `double` also work)
+     * - `paddingX: 1` - Keeps text off the border
+     * - `width: "100%"` - Spans the full terminal width
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const bannerStyles = statusMessageTheme.styles.banner();
+     * // Returns: { flexDirection: "column", borderStyle: "round", paddingX: 1, width: "100%" }
+     * ```
+     */
+    banner: (): BoxProps => ({
+      flexDirection: "column",
+      borderStyle: "round",
+      paddingX: 1,
+      width: "100%",
+    }),
+
+    /**
+     * Style function for the header row of a banner.
+     *
+     * @returns {BoxProps} Props for the row holding the icon and the title
+     *
+     * Applied styles:
+     * - `columnGap: 1` - Space between the icon and the title
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const headerStyles = statusMessageTheme.styles.bannerHeader();
+     * // Returns: { columnGap: 1 }
+     * ```
+     */
+    bannerHeader: (): BoxProps => ({
+      columnGap: 1,
+    }),
+
+    /**
+     * Style function for the code of a rendered error.
+     *
+     * @returns {TextProps} Props for rendering an error code such as `ENOENT`
+     *
+     * Applied styles:
+     * - `dimColor: true` - Renders the code dimmed after the message
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const errorCodeStyles = statusMessageTheme.styles.errorCode();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    errorCode: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for the causes and stack of a rendered error.
+     *
+     * @returns {BoxProps} Props for rendering the error details container
+     *
+     * The container sits under the error message and is indented so its
+     * content lines up with the message text rather than the icon.
+     *
+     * Applied styles:
+     * - `flexDirection: "column"` - Stacks causes and stack frames
+     * - `paddingLeft: 2` - Aligns with the message text
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const errorDetailsStyles = statusMessageTheme.styles.errorDetails();
+     * // Returns: { flexDirection: "column", paddingLeft: 2 }
+     * ```
+     */
+    errorDetails: (): BoxProps => ({
+      flexDirection: "column",
+      paddingLeft: 2,
+    }),
+
+    /**
+     * Style function for a nested cause or aggregated error.
+     *
+     * @returns {BoxProps} Props for rendering a nested error entry
+     *
+     * Each level of the cause chain is indented further than its parent.
+     *
+     * Applied styles:
+     * - `flexDirection: "column"` - Stacks the entry and its own causes
+     * - `paddingLeft: 2` - Indents the entry under its parent
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const errorCauseStyles = statusMessageTheme.styles.errorCause();
+     * // Returns: { flexDirection: "column", paddingLeft: 2 }
+     * ```
+     */
+    errorCause: (): BoxProps => ({
+      flexDirection: "column",
+      paddingLeft: 2,
+    }),
+
+    /**
+     * Style function for the label of a nested error entry.
+     *
+     * @returns {TextProps} Props for rendering labels such as "Caused by:"
+     *
+     * Applied styles:
+     * - `dimColor: true` - Renders the label dimmed
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const labelStyles = statusMessageTheme.styles.errorCauseLabel();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    errorCauseLabel: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for a stack trace frame.
+     *
+     * @returns {TextProps} Props for rendering a stack frame
+     *
+     * Applied styles:
+     * - `dimColor: true` - Renders stack frames dimmed
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const stackFrameStyles = statusMessageTheme.styles.stackFrame();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    stackFrame: (): TextProps => ({
+      dimColor: true,
+    }),
+
+    /**
+     * Style function for the collapsed stack trace summary.
+     *
+     * @returns {TextProps} Props for rendering the "N stack frames" summary
+     *
+     * Applied styles:
+     * - `dimColor: true` - Renders the summary dimmed
+     * - `italic: true` - Sets the summary apart from stack frames
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const stackSummaryStyles = statusMessageTheme.styles.stackSummary();
+     * // Returns: { dimColor: true, italic: true }
+     * ```
+     */
+    stackSummary: (): TextProps => ({
+      dimColor: true,
+      italic: true,
+    }),
+
+    /**
+     * Style function for the summary of messages hidden by `minSeverity`.
+     *
+     * @returns {TextProps} Props for rendering the "N messages hidden" summary
+     *
+     * Applied styles:
+     * - `dimColor: true` - Renders the summary dimmed
+     *
+     * @example
+     * ```typescript
+     * import { statusMessageTheme } from "tinky-status-message";
+     *
+     * const hiddenCountStyles = statusMessageTheme.styles.hiddenCount();
+     * // Returns: { dimColor: true }
+     * ```
+     */
+    hiddenCount: (): TextProps => ({
+      dimColor: true,
+    }),
+  },
+  config: {
+    /**
+     * Variant registry used to resolve the color, icon, severity and level of
+     * each variant. Theme overrides are deep-merged, so custom variants can be
+     * added without repeating the built-in ones.
+     */
+    variants: statusMessageVariants,
+
+    /**
+     * Where the timestamp of a message is rendered: `before` the icon, like
+     * a log line, or `after` the message.
+     */
+    timestampPosition: "after" as StatusMessageTimestampPosition,
+
+    /**
+     * Maximum number of cells of progress bars. Bars shrink on terminals
+     * narrower than four times this width.
+     */
+    progressWidth: 20,
+
+    /**
+     * Resolves the icon of a variant from the figure set in use, overriding
+     * the registry icon. Return a string or node to replace the icon,
+     * `false` to hide it, or `undefined` to keep the registry icon. The
+     * `icon` prop of a message takes precedence.
+     */
+    resolveIcon: undefined as StatusMessageIconResolver | undefined,
+
+    /**
+     * Whether the title and message take the variant color of the icon.
+     * Styles setting a `color` of their own take precedence.
+     */
+    colorMessage: false,
   },
 } satisfies ComponentTheme<StatusMessageThemeProps>;
 
@@ -289,8 +1082,48 @@ export default statusMessageTheme;
  *   styles: {
  *     container: () => BoxProps;
  *     iconContainer: () => BoxProps;
- *     icon: (props: StatusMessageThemeProps) => TextProps;
- *     message: () => TextProps;
+ *     icon: () => TextProps;
+ *     label: () => TextProps;
+ *     link: () => TextProps;
+ *     emphasis: () => TextProps;
+ *     code: () => TextProps;
+ *     dim: () => TextProps;
+ *     content: () => BoxProps;
+ *     title: () => TextProps;
+ *     message: () => StatusMessageTextStyle;
+ *     messageLines: () => BoxProps;
+ *     detailsContainer: () => BoxProps;
+ *     details: () => TextProps;
+ *     detailsSummary: () => TextProps;
+ *     countdown: () => TextProps;
+ *     repeatCount: () => TextProps;
+ *     lastSeen: () => TextProps;
+ *     timestamp: () => TextProps;
+ *     messageRow: () => BoxProps;
+ *     progress: () => BoxProps;
+ *     progressBar: () => TextProps;
+ *     progressTrack: () => TextProps;
+ *     progressLabel: () => TextProps;
+ *     actions: () => BoxProps;
+ *     actionKey: () => TextProps;
+ *     actionLabel: () => TextProps;
+ *     inactiveAction: () => TextProps;
+ *     banner: () => BoxProps;
+ *     bannerHeader: () => BoxProps;
+ *     errorCode: () => TextProps;
+ *     errorDetails: () => BoxProps;
+ *     errorCause: () => BoxProps;
+ *     errorCauseLabel: () => TextProps;
+ *     stackFrame: () => TextProps;
+ *     stackSummary: () => TextProps;
+ *     hiddenCount: () => TextProps;
+ *   };
+ *   config: {
+ *     variants: StatusMessageVariantDefinitions;
+ *     timestampPosition: StatusMessageTimestampPosition;
+ *     progressWidth: number;
+ *     resolveIcon?: StatusMessageIconResolver;
+ *     colorMessage: boolean;
  *   };
  * }
  * ```
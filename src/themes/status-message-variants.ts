@@ -0,0 +1,117 @@
+/**
+ * Built-in status message variant registry.
+ *
+ * Each variant declares its color, its icon, its semantic severity, its
+ * ordered severity level and the text label used in accessible mode:
+ * - info: Blue color with info symbol (`ℹ`/`i`)
+ * - success: Green color with tick symbol (`✔`/`√`)
+ * - error: Red color with cross symbol (`✘`/`×`)
+ * - warning: Yellow color with warning symbol (`⚠`/`‼`)
+ * - debug: Gray color with bullet symbol (`●`/`*`)
+ * - tip: Cyan color with star symbol (`★`/`*`)
+ * - pending: Magenta color with an animated spinner (`⠋⠙⠹…`/`-\|/`)
+ *
+ * The registry is the default value of `statusMessageTheme.config.variants`.
+ * Themes extend or override it by providing entries under the same key.
+ * Built-in variants have no `duration`, so messages stay until dismissed
+ * unless a theme sets a per-variant default.
+ *
+ * @example
+ * Adding a custom variant through the theme:
+ * ```tsx
+ * import { ThemeProvider } from "tinky-theme";
+ *
+ * declare module "tinky-status-message" {
+ *   interface StatusMessageVariantRegistry {
+ *     deploy: true;
+ *   }
+ * }
+ *
+ * <ThemeProvider
+ *   theme={{
+ *     components: {
+ *       StatusMessage: {
+ *         config: {
+ *           variants: {
+ *             deploy: {
+ *               color: "magenta",
+ *               icon: "play",
+ *               severity: "info",
+ *               level: 25,
+ *               label: "Deploy",
+ *             },
+ *           },
+ *         },
+ *       },
+ *     },
+ *   }}
+ * >
+ *   <StatusMessage variant="deploy">Deploying to production</StatusMessage>
+ * </ThemeProvider>
+ * ```
+ *
+ * @see {@link StatusMessageVariantDefinition}
+ */
+
+import { type StatusMessageVariantDefinition } from "../types/status-message-types.js";
+
+/**
+ * Default definitions of the built-in status message variants.
+ */
+const statusMessageVariants = {
+  info: {
+    color: "blue",
+    icon: "info",
+    severity: "info",
+    level: 20,
+    label: "Info",
+  },
+  success: {
+    color: "green",
+    icon: "tick",
+    severity: "success",
+    level: 30,
+    label: "Success",
+  },
+  error: {
+    color: "red",
+    icon: "cross",
+    severity: "error",
+    level: 50,
+    label: "Error",
+  },
+  warning: {
+    color: "yellow",
+    icon: "warning",
+    severity: "warning",
+    level: 40,
+    label: "Warning",
+  },
+  debug: {
+    color: "gray",
+    icon: "bullet",
+    severity: "debug",
+    level: 10,
+    label: "Debug",
+  },
+  tip: {
+    color: "cyan",
+    icon: "star",
+    severity: "info",
+    level: 20,
+    label: "Tip",
+  },
+  pending: {
+    color: "magenta",
+    icon: {
+      unicode: ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"],
+      ascii: ["-", "\\", "|", "/"],
+      interval: 80,
+    },
+    severity: "info",
+    level: 20,
+    label: "Pending",
+  },
+} satisfies Record<string, StatusMessageVariantDefinition>;
+
+export default statusMessageVariants;
@@ -0,0 +1,113 @@
+/**
+ * Status message queue types.
+ */
+
+import { type ReactNode } from "react";
+import { type StatusMessageProgress } from "../utils/progress.js";
+import { type StatusMessageVariant } from "./status-message-types.js";
+
+/**
+ * A status message held in the queue of a `StatusMessageProvider`.
+ */
+export interface StatusMessageEntry {
+  /**
+   * Unique identifier of the message within the queue.
+   */
+  id: string;
+
+  /**
+   * The status variant of the message.
+   */
+  variant: StatusMessageVariant;
+
+  /**
+   * Optional headline rendered on the icon row.
+   */
+  title?: ReactNode;
+
+  /**
+   * The message body.
+   */
+  message?: ReactNode;
+
+  /**
+   * Optional supplementary content rendered under the message body.
+   */
+  details?: ReactNode;
+
+  /**
+   * Time in milliseconds after which the message is dismissed. Defaults to
+   * the duration of the variant in the theme.
+   */
+  duration?: number;
+
+  /**
+   * Progress rendered as a bar after the message. Update it with `update`.
+   */
+  progress?: StatusMessageProgress;
+
+  /**
+   * Time the message appeared, rendered as its timestamp.
+   */
+  timestamp?: Date | number;
+
+  /**
+   * Key identifying repeats of the message when deduplication is enabled.
+   * Defaults to the text of the title and the message.
+   */
+  dedupeKey?: string;
+
+  /**
+   * Number of times the message was pushed, counting collapsed repeats.
+   */
+  count: number;
+
+  /**
+   * Time the message was last pushed, in milliseconds since the epoch.
+   */
+  lastSeen: number;
+}
+
+/**
+ * Input accepted by `push`. The identifier is generated when omitted, and
+ * an identifier already in the queue replaces the queued message.
+ */
+export type StatusMessageInput = Omit<
+  StatusMessageEntry,
+  "id" | "count" | "lastSeen"
+> & {
+  id?: string;
+};
+
+/**
+ * Partial update accepted by `update`.
+ */
+export type StatusMessageUpdate = Partial<
+  Omit<StatusMessageEntry, "id" | "count" | "lastSeen">
+>;
+
+/**
+ * Policy collapsing repeated status messages into a single entry.
+ *
+ * Messages are repeats when they share their variant and their key.
+ */
+export interface StatusMessageDedupePolicy {
+  /**
+   * Time in milliseconds since a message was last seen within which a
+   * repeat is collapsed into it. Later repeats start a new entry.
+   *
+   * @default Infinity
+   */
+  window?: number;
+
+  /**
+   * Computes the key of a message. Defaults to its `dedupeKey`, or the
+   * text of its title and message.
+   */
+  key?: (message: StatusMessageInput) => string;
+}
+
+/**
+ * Order in which `StatusMessageList` renders the queue.
+ */
+export type StatusMessageListOrder = "newest-first" | "newest-last";
@@ -1,4 +1,220 @@
 /**
  * Status message variant types.
  */
-export type StatusMessageVariant = "info" | "success" | "error" | "warning";
+
+import { type ReactNode } from "react";
+import { type TextProps } from "tinky";
+import { type useFigures } from "tinky-figures";
+import { type StatusMessageWrap } from "../utils/wrap.js";
+
+/**
+ * Registry of known status message variant names.
+ *
+ * Each key is a variant name accepted by `StatusMessage`. Custom variants are
+ * added through module augmentation and given a definition in the theme's
+ * `config.variants`.
+ *
+ * @example
+ * ```typescript
+ * declare module "tinky-status-message" {
+ *   interface StatusMessageVariantRegistry {
+ *     deploy: true;
+ *   }
+ * }
+ * ```
+ */
+export interface StatusMessageVariantRegistry {
+  info: true;
+  success: true;
+  error: true;
+  warning: true;
+  debug: true;
+  tip: true;
+  pending: true;
+}
+
+/**
+ * Status message variant names, including augmented custom variants.
+ */
+export type StatusMessageVariant = keyof StatusMessageVariantRegistry;
+
+/**
+ * Semantic severity of a status message variant.
+ */
+export type StatusMessageSeverity =
+  "debug" | "info" | "success" | "warning" | "error";
+
+/**
+ * Minimum severity of the status messages that render: a severity name,
+ * standing for its default level, or a numeric level.
+ */
+export type StatusMessageSeverityThreshold = StatusMessageSeverity | number;
+
+/**
+ * Figure set returned by `useFigures()`.
+ */
+export type StatusMessageFigures = ReturnType<typeof useFigures>;
+
+/**
+ * Explicit glyphs of a status message icon for Unicode and ASCII terminals.
+ *
+ * A list of glyphs is played as an animation, advancing every `interval`
+ * milliseconds.
+ */
+export interface StatusMessageGlyph {
+  unicode: string | readonly string[];
+  ascii: string | readonly string[];
+  interval?: number;
+}
+
+/**
+ * Icon of a status message variant.
+ *
+ * Either the name of a figure from `useFigures()`, which carries its own ASCII
+ * fallback, or explicit glyphs for Unicode and ASCII terminals.
+ */
+export type StatusMessageIcon = keyof StatusMessageFigures | StatusMessageGlyph;
+
+/**
+ * Icon override of a status message: a glyph string, any node, or `false`
+ * to hide the icon.
+ */
+export type StatusMessageIconOverride = ReactNode | false;
+
+/**
+ * Theme-level icon resolver set as `statusMessageTheme.config.resolveIcon`.
+ *
+ * Receives the variant and the figure set in use, with ASCII fallbacks
+ * already applied on terminals without Unicode. Returning `undefined` keeps
+ * the icon of the variant registry.
+ *
+ * @example
+ * ```typescript
+ * const resolveIcon: StatusMessageIconResolver = (variant, figures) =>
+ *   variant === "success" ? figures.checkboxOn : undefined;
+ * ```
+ */
+export type StatusMessageIconResolver = (
+  variant: StatusMessageVariant,
+  figures: StatusMessageFigures,
+) => StatusMessageIconOverride | undefined;
+
+/**
+ * Layout of a status message.
+ *
+ * - `inline`: Borderless icon and text row
+ * - `banner`: Full-width bordered box with the icon and title in a header row
+ */
+export type StatusMessageLayout = "inline" | "banner";
+
+/**
+ * Text props of the message text, with the wrapping defaults of
+ * `statusMessageTheme.styles.message`.
+ */
+export interface StatusMessageTextStyle extends Omit<TextProps, "wrap"> {
+  /**
+   * How the message wraps or truncates.
+   */
+  wrap?: StatusMessageWrap;
+
+  /**
+   * Maximum number of lines of a wrapped message.
+   */
+  maxLines?: number;
+}
+
+/**
+ * Position of the timestamp of a status message.
+ *
+ * - `before`: Ahead of the icon, like a log line
+ * - `after`: After the message, next to the countdown
+ */
+export type StatusMessageTimestampPosition = "before" | "after";
+
+/**
+ * Definition of a single status message variant.
+ */
+export interface StatusMessageVariantDefinition {
+  /**
+   * Terminal color used for the variant icon.
+   */
+  color: TextProps["color"];
+
+  /**
+   * Icon displayed next to the message.
+   */
+  icon: StatusMessageIcon;
+
+  /**
+   * Semantic severity of the variant.
+   */
+  severity: StatusMessageSeverity;
+
+  /**
+   * Ordered severity of the variant, compared against the `minSeverity` of
+   * `StatusMessageSeverityProvider` and used to sort groups. Defaults to the
+   * level of `severity`: debug 10, info 20, success 30, warning 40, error 50.
+   */
+  level?: number;
+
+  /**
+   * Text label spelling out the variant in accessible mode, e.g. `Error`.
+   * Rendered followed by a colon in place of the icon. Derived from the
+   * variant name when omitted, e.g. `Deploy` for `deploy`.
+   */
+  label?: string;
+
+  /**
+   * Default auto-dismiss duration in milliseconds for messages of this
+   * variant. Messages stay until dismissed when omitted.
+   */
+  duration?: number;
+
+  /**
+   * Default layout for messages of this variant.
+   *
+   * @default "inline"
+   */
+  layout?: StatusMessageLayout;
+}
+
+/**
+ * Variant registry mapping variant names to their definitions.
+ */
+export type StatusMessageVariantDefinitions = Record<
+  StatusMessageVariant,
+  StatusMessageVariantDefinition
+>;
+
+/**
+ * Keyboard action offered by a status message.
+ *
+ * `key` is a single character matched against the typed input, or one of
+ * the named keys `escape` (`esc`), `return` (`enter`), `tab`, `space`,
+ * `backspace`, `delete`, `up`, `down`, `left` and `right`.
+ *
+ * @example
+ * ```typescript
+ * const retry: StatusMessageAction = {
+ *   key: "r",
+ *   label: "retry",
+ *   onAction: () => push(),
+ * };
+ * ```
+ */
+export interface StatusMessageAction {
+  /**
+   * Key triggering the action.
+   */
+  key: string;
+
+  /**
+   * Label shown next to the key hint.
+   */
+  label: string;
+
+  /**
+   * Called when the key is pressed while the message is focused.
+   */
+  onAction: () => void;
+}
@@ -0,0 +1,22 @@
+/**
+ * Utility functions for accessible status message rendering.
+ *
+ * Detects environments where icons and colors do not convey meaning, so
+ * status messages should spell out their variant as a text label.
+ */
+
+/**
+ * Detects whether accessible rendering is preferred from environment
+ * variables.
+ *
+ * @param {Record<string, string | undefined>} [env={}] - Environment variables
+ * @returns {boolean} True when `NO_COLOR` is set to a non-empty value or
+ *   `TERM` is `dumb`
+ */
+export function detectAccessibleMode(
+  env: Record<string, string | undefined> = {},
+): boolean {
+  const noColor = env.NO_COLOR !== undefined && env.NO_COLOR !== "";
+
+  return noColor || env.TERM === "dumb";
+}
@@ -0,0 +1,70 @@
+/**
+ * Utility functions for status message action keys.
+ *
+ * Matches keypresses reported by tinky's `useInput` against action keys and
+ * formats the keys for display in key hints.
+ */
+
+import { type Key } from "tinky";
+
+/**
+ * Named keys and the flag `useInput` sets when they are pressed.
+ */
+const namedKeys: Record<string, keyof Key> = {
+  escape: "escape",
+  esc: "escape",
+  return: "return",
+  enter: "return",
+  tab: "tab",
+  backspace: "backspace",
+  delete: "delete",
+  up: "upArrow",
+  down: "downArrow",
+  left: "leftArrow",
+  right: "rightArrow",
+};
+
+/**
+ * Short names shown in key hints.
+ */
+const keyLabels: Record<string, string> = {
+  escape: "esc",
+  return: "enter",
+};
+
+/**
+ * Checks whether a keypress matches an action key.
+ *
+ * @param {string} actionKey - Action key, a character or a named key
+ * @param {string} input - Input reported by `useInput`
+ * @param {Key} key - Key flags reported by `useInput`
+ * @returns {boolean} True when the keypress triggers the action
+ */
+export function matchesActionKey(
+  actionKey: string,
+  input: string,
+  key: Key,
+): boolean {
+  const name = actionKey.toLowerCase();
+  const flag = namedKeys[name];
+
+  if (flag) {
+    return key[flag];
+  }
+
+  if (name === "space") {
+    return input === " ";
+  }
+
+  return !key.ctrl && !key.meta && input === actionKey;
+}
+
+/**
+ * Formats an action key for display in a key hint.
+ *
+ * @param {string} actionKey - Action key, a character or a named key
+ * @returns {string} The key as shown between brackets, e.g. `esc`
+ */
+export function formatActionKey(actionKey: string): string {
+  return keyLabels[actionKey.toLowerCase()] ?? actionKey;
+}
@@ -0,0 +1,167 @@
+/**
+ * Utility functions for CI annotation output.
+ *
+ * Detects CI environments and formats status messages as annotations that CI
+ * systems pick up, such as GitHub Actions workflow commands.
+ */
+
+import { type StatusMessageSeverity } from "../types/status-message-types.js";
+
+/**
+ * Annotation formats for CI output.
+ *
+ * - `github`: GitHub Actions workflow commands (`::error file=…::message`)
+ * - `plain`: Uncolored compiler-style lines (`file:1:2: error: message`),
+ *   used for GitLab CI and other CI systems
+ */
+export type CiAnnotationFormat = "github" | "plain";
+
+/**
+ * A status message to format as a CI annotation.
+ */
+export interface CiAnnotationInput {
+  /**
+   * Semantic severity of the message's variant.
+   */
+  severity: StatusMessageSeverity;
+
+  /**
+   * Optional headline of the message.
+   */
+  title?: string;
+
+  /**
+   * The message body.
+   */
+  message: string;
+
+  /**
+   * Source file the message refers to.
+   */
+  file?: string;
+
+  /**
+   * Line in `file` the message refers to.
+   */
+  line?: number;
+
+  /**
+   * Column in `line` the message refers to.
+   */
+  col?: number;
+}
+
+/**
+ * Returns whether an environment variable is set to a truthy value.
+ */
+function isEnabled(value: string | undefined): boolean {
+  return (
+    value !== undefined && value !== "" && value !== "0" && value !== "false"
+  );
+}
+
+/**
+ * Detects the CI annotation format from environment variables.
+ *
+ * @param {Record<string, string | undefined>} [env={}] - Environment variables
+ * @returns {CiAnnotationFormat | undefined} The annotation format, or
+ *   undefined outside of CI
+ *
+ * Detection order:
+ * 1. `GITHUB_ACTIONS` → `github`
+ * 2. `GITLAB_CI`, `CI` or `CONTINUOUS_INTEGRATION` → `plain`
+ */
+export function detectCiAnnotationFormat(
+  env: Record<string, string | undefined> = {},
+): CiAnnotationFormat | undefined {
+  if (isEnabled(env.GITHUB_ACTIONS)) {
+    return "github";
+  }
+
+  if (
+    isEnabled(env.GITLAB_CI) ||
+    isEnabled(env.CI) ||
+    isEnabled(env.CONTINUOUS_INTEGRATION)
+  ) {
+    return "plain";
+  }
+
+  return undefined;
+}
+
+/**
+ * GitHub Actions commands by severity.
+ */
+const githubCommandBySeverity: Record<StatusMessageSeverity, string> = {
+  debug: "debug",
+  info: "notice",
+  success: "notice",
+  warning: "warning",
+  error: "error",
+};
+
+/**
+ * Escapes the message of a GitHub Actions workflow command.
+ */
+function escapeGithubData(value: string): string {
+  return value.replace(/%/g, "%25").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+}
+
+/**
+ * Escapes a property value of a GitHub Actions workflow command.
+ */
+function escapeGithubProperty(value: string): string {
+  return escapeGithubData(value).replace(/:/g, "%3A").replace(/,/g, "%2C");
+}
+
+/**
+ * Formats a status message as a CI annotation.
+ *
+ * @param {CiAnnotationInput} input - The message to format
+ * @param {CiAnnotationFormat} format - The annotation format
+ * @returns {string} The annotation, on a single line for `github`
+ *
+ * @example
+ * ```typescript
+ * formatCiAnnotation(
+ *   { severity: "error", message: "Missing semicolon", file: "a.ts", line: 3 },
+ *   "github",
+ * );
+ * // "::error file=a.ts,line=3::Missing semicolon"
+ * ```
+ */
+export function formatCiAnnotation(
+  input: CiAnnotationInput,
+  format: CiAnnotationFormat,
+): string {
+  const { severity, title, message, file, line, col } = input;
+
+  if (format === "github") {
+    const command = githubCommandBySeverity[severity];
+    // `debug` takes no properties.
+    const properties =
+      command === "debug"
+        ? []
+        : [
+            ["file", file],
+            ["line", line],
+            ["col", col],
+            ["title", title],
+          ].filter(([, value]) => value !== undefined && value !== "");
+    const parameters = properties
+      .map(([key, value]) => `${key}=${escapeGithubProperty(String(value))}`)
+      .join(",");
+    const data =
+      command === "debug" && title ? `${title}: ${message}` : message;
+
+    return `::${command}${parameters ? ` ${parameters}` : ""}::${escapeGithubData(data)}`;
+  }
+
+  const location = [file, line, col]
+    .filter((part) => part !== undefined && part !== "")
+    .join(":");
+
+  return [location, severity, title, message]
+    .filter((part) => part !== undefined && part !== "")
+    .join(": ");
+}
@@ -0,0 +1,42 @@
+/**
+ * Utility functions for deduplicating status messages.
+ *
+ * Computes the keys identifying repeated messages under a
+ * `StatusMessageDedupePolicy`.
+ */
+
+import {
+  type StatusMessageDedupePolicy,
+  type StatusMessageInput,
+} from "../types/status-message-queue-types.js";
+import { toPlainText } from "./plain-text.js";
+
+/**
+ * Resolves the `dedupe` option of providers and groups to a policy, or
+ * undefined when deduplication is disabled.
+ */
+export function resolveDedupePolicy(
+  dedupe: boolean | StatusMessageDedupePolicy | undefined,
+): StatusMessageDedupePolicy | undefined {
+  if (!dedupe) {
+    return undefined;
+  }
+
+  return dedupe === true ? {} : dedupe;
+}
+
+/**
+ * Returns the key under which repeats of a message are collapsed: its
+ * variant plus the policy key, its `dedupeKey` or its text content.
+ */
+export function getDedupeKey(
+  message: StatusMessageInput,
+  policy: StatusMessageDedupePolicy,
+): string {
+  const key = policy.key
+    ? policy.key(message)
+    : (message.dedupeKey ??
+      `${toPlainText(message.title)}\n${toPlainText(message.message)}`);
+
+  return `${message.variant}\u0000${key}`;
+}
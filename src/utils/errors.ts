@@ -0,0 +1,127 @@
+/**
+ * Utility functions for describing thrown values.
+ *
+ * Turns errors, including `AggregateError` and `cause` chains, into plain
+ * descriptions that `ErrorMessage` can render.
+ */
+
+/**
+ * Plain description of a thrown value.
+ */
+export interface ErrorDescription {
+  /**
+   * Error name, e.g. `TypeError`. Empty for values that are not errors.
+   */
+  name: string;
+
+  /**
+   * Error message, or the string form of values that are not errors.
+   */
+  message: string;
+
+  /**
+   * Error code such as `ENOENT`, when present.
+   */
+  code?: string;
+
+  /**
+   * Stack frames that passed the frame filter, without the leading `at`.
+   */
+  frames: string[];
+
+  /**
+   * Description of the error's `cause`, when present.
+   */
+  cause?: ErrorDescription;
+
+  /**
+   * Descriptions of the errors wrapped by an `AggregateError`.
+   */
+  errors: ErrorDescription[];
+}
+
+/**
+ * Options for `describeError`.
+ */
+export interface DescribeErrorOptions {
+  /**
+   * Returns whether a stack frame is kept. Defaults to `isUserStackFrame`.
+   */
+  stackFilter?: (frame: string) => boolean;
+}
+
+/**
+ * Returns whether a stack frame belongs to user code rather than to
+ * dependencies in `node_modules`.
+ */
+export function isUserStackFrame(frame: string): boolean {
+  return !/[\\/]node_modules[\\/]/.test(frame);
+}
+
+/**
+ * Describes a thrown value, following its `cause` chain and aggregated errors.
+ *
+ * @param {unknown} error - The thrown value
+ * @param {DescribeErrorOptions} [options] - Description options
+ * @returns {ErrorDescription} Plain description of the value
+ *
+ * Errors that appear again further down their own cause chain are not
+ * described twice.
+ */
+export function describeError(
+  error: unknown,
+  options: DescribeErrorOptions = {},
+): ErrorDescription {
+  return describe(error, options.stackFilter ?? isUserStackFrame, new Set());
+}
+
+function describe(
+  error: unknown,
+  stackFilter: (frame: string) => boolean,
+  seen: Set<unknown>,
+): ErrorDescription {
+  if (!(error instanceof Error)) {
+    return { name: "", message: String(error), frames: [], errors: [] };
+  }
+
+  seen.add(error);
+
+  const code = (error as { code?: unknown }).code;
+  const frames = (error.stack ?? "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith("at "))
+    .map((line) => line.slice(3))
+    .filter(stackFilter);
+
+  const cause =
+    error.cause !== undefined && !seen.has(error.cause)
+      ? describe(error.cause, stackFilter, seen)
+      : undefined;
+
+  const errors =
+    error instanceof AggregateError
+      ? (error.errors as unknown[])
+          .filter((inner) => !seen.has(inner))
+          .map((inner) => describe(inner, stackFilter, seen))
+      : [];
+
+  return {
+    name: error.name,
+    message: error.message,
+    code: code === undefined || code === null ? undefined : String(code),
+    frames,
+    cause,
+    errors,
+  };
+}
+
+/**
+ * Formats the headline of a described error, prefixing the message with the
+ * error name unless it is the generic `Error`.
+ */
+export function formatErrorHeadline(description: ErrorDescription): string {
+  return description.name && description.name !== "Error"
+    ? `${description.name}: ${description.message}`
+    : description.message;
+}
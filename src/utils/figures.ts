@@ -0,0 +1,25 @@
+/**
+ * ASCII fallback figures.
+ *
+ * The figures of `tinky-figures` don't follow the terminal capabilities
+ * detected by this package, so components and string formatting lay these
+ * over them on terminals without Unicode support.
+ */
+
+import { type StatusMessageFigures } from "../types/status-message-types.js";
+
+/**
+ * ASCII fallback figures of the built-in variants and of the summary lines of
+ * collapsible details.
+ */
+export const asciiFigures: Partial<StatusMessageFigures> = {
+  info: "i",
+  tick: "√",
+  cross: "×",
+  warning: "‼",
+  bullet: "*",
+  star: "*",
+  triangleRightSmall: ">",
+  triangleDownSmall: "v",
+  ellipsis: "...",
+};
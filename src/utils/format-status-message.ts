@@ -0,0 +1,333 @@
+/**
+ * Utility functions for rendering status messages to plain strings.
+ *
+ * `formatStatusMessage` produces the same text `StatusMessage` renders, for
+ * logs, quiet output and other places that cannot mount a tinky tree.
+ *
+ * @example
+ * ```typescript
+ * import { formatStatusMessage } from "tinky-status-message";
+ *
+ * console.log(
+ *   formatStatusMessage(
+ *     { variant: "error", title: "Build failed", message: "2 type errors" },
+ *     { color: false, width: 80 },
+ *   ),
+ * );
+ * // ✘ Build failed
+ * //   2 type errors
+ * ```
+ */
+
+import { applyTextStyles, type BoxProps, type TextProps } from "tinky";
+import defaultFigures from "tinky-figures";
+import { type ComponentTheme, extendTheme, resolveStyles } from "tinky-theme";
+import { type StatusMessageThemeProps } from "../themes/status-message-theme.js";
+import statusMessageTheme from "../themes/status-message-theme.js";
+import {
+  type StatusMessageFigures,
+  type StatusMessageTextStyle,
+  type StatusMessageVariant,
+} from "../types/status-message-types.js";
+import { detectAccessibleMode } from "./accessibility.js";
+import { asciiFigures } from "./figures.js";
+import { formatHyperlink } from "./hyperlink.js";
+import {
+  type StatusMessageTranslate,
+  translateStatusMessage,
+} from "./messages.js";
+import { toPlainText } from "./plain-text.js";
+import { detectTerminalCapabilities } from "./terminal-capabilities.js";
+import { measureLayoutText, measureText } from "./text-width.js";
+import {
+  replaceMergedArrays,
+  resolveThemeConfig,
+  resolveVariant,
+  resolveVariantFrames,
+  resolveVariantLabel,
+} from "./variants.js";
+import { layoutText, type StatusMessageWrap, wrapText } from "./wrap.js";
+
+/**
+ * Content of a status message formatted as a string.
+ */
+export interface StatusMessageFormatInput {
+  /**
+   * The status variant of the message.
+   */
+  variant: StatusMessageVariant;
+
+  /**
+   * Icon replacing the variant icon, or `false` to hide the icon and its
+   * column. Takes precedence over `config.resolveIcon` of the theme.
+   */
+  icon?: string | false;
+
+  /**
+   * Optional headline on the icon row.
+   */
+  title?: string;
+
+  /**
+   * The message body.
+   */
+  message?: string;
+
+  /**
+   * Optional supplementary text indented under the message body.
+   */
+  details?: string;
+
+  /**
+   * Optional URL linked under the message.
+   */
+  href?: string;
+
+  /**
+   * Text of the `href` link. The URL is shown when omitted.
+   */
+  linkText?: string;
+
+  /**
+   * How the message wraps or truncates. Defaults to `wrap` of
+   * `styles.message`.
+   */
+  wrap?: StatusMessageWrap;
+
+  /**
+   * Maximum number of message lines. Defaults to `maxLines` of
+   * `styles.message`.
+   */
+  maxLines?: number;
+}
+
+/**
+ * Options for `formatStatusMessage`.
+ */
+export interface FormatStatusMessageOptions {
+  /**
+   * Whether to apply ANSI styles. Styles are applied the way tinky applies
+   * them to `Text`, so they follow the terminal's color support.
+   *
+   * @default true
+   */
+  color?: boolean;
+
+  /**
+   * Whether to use Unicode figures. Detected from `env` and `platform` when
+   * omitted.
+   */
+  unicode?: boolean;
+
+  /**
+   * Whether to replace the icon with the variant label, e.g. `Error:`, as
+   * `StatusMessage` does in accessible mode. Detected from `env` when
+   * omitted.
+   */
+  accessible?: boolean;
+
+  /**
+   * Whether to emit OSC 8 hyperlinks rather than `text (url)`. Detected from
+   * `env` when omitted.
+   */
+  hyperlinks?: boolean;
+
+  /**
+   * Environment used to detect terminal capabilities and accessible mode.
+   *
+   * @default process.env
+   */
+  env?: Record<string, string | undefined>;
+
+  /**
+   * Platform used to detect terminal capabilities.
+   *
+   * @default process.platform
+   */
+  platform?: string;
+
+  /**
+   * Target width for wrapping. Text is not wrapped when omitted.
+   */
+  width?: number;
+
+  /**
+   * Figures replacing those used for figure-based icons. Defaults to the
+   * figures of `tinky-figures`, with ASCII fallbacks without Unicode
+   * support.
+   */
+  figures?: Partial<StatusMessageFigures>;
+
+  /**
+   * Translates built-in strings such as the accessible label, e.g. the
+   * result of `createStatusMessageTranslate`.
+   *
+   * @default translateStatusMessage
+   */
+  translate?: StatusMessageTranslate;
+
+  /**
+   * Theme overrides merged into `statusMessageTheme`, like a
+   * `components.StatusMessage` entry passed to `ThemeProvider`.
+   */
+  theme?: ComponentTheme<StatusMessageThemeProps>;
+}
+
+/**
+ * Formats a status message as the text `StatusMessage` would render.
+ *
+ * @param {StatusMessageFormatInput} input - The message to format
+ * @param {FormatStatusMessageOptions} [options] - Formatting options
+ * @returns {string} The formatted message, lines separated by `\n`
+ *
+ * Layout matches the component: the icon and the first content line share
+ * a row, further lines align with the content column, and details are
+ * indented by the `detailsContainer` padding. The icon column follows the
+ * `width`, `minWidth` and `display: "none"` of `styles.iconContainer`, and
+ * is left out with its gap when the icon is hidden. Like the layout engine,
+ * the column counts pictographs with an emoji form, such as `ℹ`, as two
+ * columns wide.
+ */
+export function formatStatusMessage(
+  input: StatusMessageFormatInput,
+  options: FormatStatusMessageOptions = {},
+): string {
+  const { color = true, env = process.env, width } = options;
+  const capabilities = detectTerminalCapabilities(env, options.platform);
+  const unicode = options.unicode ?? capabilities.unicode;
+  const hyperlinks = options.hyperlinks ?? capabilities.hyperlinks;
+  const accessible = options.accessible ?? detectAccessibleMode(env);
+  const props: StatusMessageThemeProps = { variant: input.variant };
+
+  const { styles, config } = resolveStyles(mergeTheme(options.theme), props);
+
+  const { variants, resolveIcon, colorMessage } = resolveThemeConfig(
+    config,
+    props,
+  );
+  const definition = resolveVariant(variants, input.variant);
+  const figures: StatusMessageFigures = {
+    ...(unicode ? defaultFigures : { ...defaultFigures, ...asciiFigures }),
+    ...options.figures,
+  };
+  const [glyph = ""] = resolveVariantFrames(definition.icon, figures, unicode);
+  const override =
+    input.icon === undefined
+      ? resolveIcon?.(input.variant, figures)
+      : input.icon;
+  const translate = options.translate ?? translateStatusMessage;
+  const icon = accessible
+    ? `${translate(`label.${input.variant}`, {
+        defaultValue: resolveVariantLabel(definition, input.variant),
+      })}:`
+    : override === undefined
+      ? glyph
+      : override !== false && toPlainText(override);
+
+  const style = (text: string, textStyles: TextProps): string =>
+    color && text !== "" ? applyTextStyles(text, textStyles) : text;
+  const textColor = colorMessage ? definition.color : undefined;
+
+  const iconBox = styles.iconContainer as BoxProps;
+  const showIcon = icon !== false && iconBox.display !== "none";
+  const gap = showIcon ? ((styles.container as BoxProps).columnGap ?? 0) : 0;
+  const indent = (styles.detailsContainer as BoxProps).paddingLeft ?? 0;
+  const glyphWidth = showIcon ? measureText(icon, capabilities.emojiWidth) : 0;
+  const iconWidth = showIcon
+    ? Math.max(
+        measureLayoutText(icon),
+        typeof iconBox.width === "number" ? iconBox.width : 0,
+        typeof iconBox.minWidth === "number" ? iconBox.minWidth : 0,
+      )
+    : 0;
+  const contentWidth =
+    width === undefined ? undefined : Math.max(1, width - iconWidth - gap);
+  const detailsWidth =
+    contentWidth === undefined ? undefined : Math.max(1, contentWidth - indent);
+
+  const {
+    wrap: messageWrap,
+    maxLines: messageMaxLines,
+    ...messageStyles
+  } = styles.message as StatusMessageTextStyle;
+  const wrapLines = (text: string, lineWidth?: number) =>
+    wrapText(text, lineWidth, capabilities.emojiWidth);
+
+  const link =
+    input.href && formatHyperlink(input.linkText ?? "", input.href, hyperlinks);
+
+  const lines = [
+    ...(input.title
+      ? wrapLines(input.title, contentWidth).map((line) =>
+          style(line, { color: textColor, ...(styles.title as TextProps) }),
+        )
+      : []),
+    ...(input.message
+      ? layoutText([{ type: "text", text: input.message }], {
+          width: contentWidth ?? Infinity,
+          wrap: input.wrap ?? messageWrap,
+          maxLines: input.maxLines ?? messageMaxLines,
+          ellipsis: unicode ? "…" : "...",
+          emojiWidth: capabilities.emojiWidth,
+        }).map((line) =>
+          style(line.map((span) => span.text).join(""), {
+            color: textColor,
+            ...(messageStyles as TextProps),
+          }),
+        )
+      : []),
+    ...(input.details
+      ? wrapLines(input.details, detailsWidth).map(
+          (line) =>
+            " ".repeat(indent) + style(line, styles.details as TextProps),
+        )
+      : []),
+    ...(link
+      ? (hyperlinks ? [link] : wrapLines(link, contentWidth)).map((line) =>
+          style(line, styles.link as TextProps),
+        )
+      : []),
+  ];
+
+  const prefix = showIcon
+    ? style(
+        icon,
+        accessible
+          ? (styles.label as TextProps)
+          : { color: definition.color, ...(styles.icon as TextProps) },
+      ) + " ".repeat(iconWidth - glyphWidth + gap)
+    : "";
+  const continuation = " ".repeat(iconWidth + gap);
+
+  return (lines.length > 0 ? lines : [""])
+    .map((line, index) =>
+      ((index === 0 ? prefix : continuation) + line).trimEnd(),
+    )
+    .join("\n");
+}
+
+/**
+ * Merges theme overrides into `statusMessageTheme` the way `ThemeProvider`
+ * overrides are merged by `useStatusMessageTheme`, with override arrays
+ * replacing the default arrays.
+ */
+function mergeTheme(
+  overrides?: ComponentTheme<StatusMessageThemeProps>,
+): ComponentTheme<StatusMessageThemeProps> {
+  if (!overrides) {
+    return statusMessageTheme;
+  }
+
+  const { components } = extendTheme(
+    { components: { StatusMessage: statusMessageTheme as ComponentTheme } },
+    { components: { StatusMessage: overrides as unknown as ComponentTheme } },
+  );
+
+  const merged =
+    components.StatusMessage as unknown as ComponentTheme<StatusMessageThemeProps>;
+
+  return {
+    ...merged,
+    config: replaceMergedArrays(merged.config, overrides.config),
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Utility functions for terminal hyperlinks.
+ *
+ * Formats OSC 8 hyperlinks for terminals that support them, and readable
+ * `text (url)` fallbacks for terminals that do not.
+ */
+
+/**
+ * Formats a hyperlink for the terminal.
+ *
+ * @param {string} text - Visible link text; the URL is shown when empty
+ * @param {string} url - Link target
+ * @param {boolean} supported - Whether the terminal supports OSC 8 hyperlinks
+ * @returns {string} An OSC 8 hyperlink, or `text (url)` without support
+ */
+export function formatHyperlink(
+  text: string,
+  url: string,
+  supported: boolean,
+): string {
+  const label = text || url;
+
+  if (supported) {
+    return `\u001B]8;;${url}\u0007${label}\u001B]8;;\u0007`;
+  }
+
+  return label === url ? url : `${label} (${url})`;
+}
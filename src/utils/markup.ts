@@ -0,0 +1,150 @@
+/**
+ * Utility functions for the inline markup of status messages.
+ *
+ * Parses `**emphasis**`, `` `code` `` and `_dim_` spans out of strings.
+ * Spans do not nest, and delimiters without a match render literally.
+ */
+
+/**
+ * Kind of an inline markup span.
+ *
+ * - `text`: Literal text
+ * - `emphasis`: `**bold**` text
+ * - `code`: `` `code` `` text
+ * - `dim`: `_dimmed_` text
+ */
+export type MarkupSpanType = "text" | "emphasis" | "code" | "dim";
+
+/**
+ * A span of parsed inline markup.
+ */
+export interface MarkupSpan {
+  type: MarkupSpanType;
+  text: string;
+}
+
+/**
+ * Markup delimiters, tried in this order at each position.
+ */
+const delimiters: readonly (readonly [string, MarkupSpanType])[] = [
+  ["**", "emphasis"],
+  ["`", "code"],
+  ["_", "dim"],
+];
+
+/**
+ * Parses inline markup into spans.
+ *
+ * @param {string} text - Text containing markup
+ * @returns {MarkupSpan[]} Spans in order, with adjacent literal text merged
+ *
+ * A span needs an opening and a closing delimiter around text that does not
+ * start or end with whitespace, so `2 ** 10 is **1024` stays literal. `_`
+ * only delimits at word boundaries, so `snake_case_names` stay literal.
+ *
+ * @example
+ * ```typescript
+ * parseMarkup("Run `npm test` **now**");
+ * // [
+ * //   { type: "text", text: "Run " },
+ * //   { type: "code", text: "npm test" },
+ * //   { type: "text", text: " " },
+ * //   { type: "emphasis", text: "now" },
+ * // ]
+ * ```
+ */
+export function parseMarkup(text: string): MarkupSpan[] {
+  const spans: MarkupSpan[] = [];
+  let literal = "";
+  let index = 0;
+
+  while (index < text.length) {
+    const span = matchSpan(text, index);
+
+    if (span) {
+      if (literal) {
+        spans.push({ type: "text", text: literal });
+        literal = "";
+      }
+      spans.push({ type: span.type, text: span.text });
+      index = span.end;
+    } else {
+      literal += text[index];
+      index += 1;
+    }
+  }
+
+  if (literal) {
+    spans.push({ type: "text", text: literal });
+  }
+
+  return spans;
+}
+
+/**
+ * Removes inline markup, keeping the text of its spans.
+ *
+ * @param {string} text - Text containing markup
+ * @returns {string} The text without delimiters
+ */
+export function stripMarkup(text: string): string {
+  return parseMarkup(text)
+    .map((span) => span.text)
+    .join("");
+}
+
+/**
+ * Matches a markup span starting at `start`.
+ */
+function matchSpan(
+  text: string,
+  start: number,
+): (MarkupSpan & { end: number }) | undefined {
+  for (const [delimiter, type] of delimiters) {
+    if (!text.startsWith(delimiter, start)) {
+      continue;
+    }
+
+    const wordBound = delimiter === "_";
+    const contentStart = start + delimiter.length;
+    if (
+      (wordBound && isWordCharacter(text[start - 1])) ||
+      isWhitespace(text[contentStart])
+    ) {
+      continue;
+    }
+
+    let close = text.indexOf(delimiter, contentStart + 1);
+    while (
+      close !== -1 &&
+      (isWhitespace(text[close - 1]) ||
+        (wordBound && isWordCharacter(text[close + delimiter.length])))
+    ) {
+      close = text.indexOf(delimiter, close + 1);
+    }
+
+    if (close !== -1) {
+      return {
+        type,
+        text: text.slice(contentStart, close),
+        end: close + delimiter.length,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Tests whether a character is whitespace.
+ */
+function isWhitespace(character: string | undefined): boolean {
+  return character !== undefined && /\s/.test(character);
+}
+
+/**
+ * Tests whether a character is a letter, a digit or `_`.
+ */
+function isWordCharacter(character: string | undefined): boolean {
+  return character !== undefined && /[\p{L}\p{N}_]/u.test(character);
+}
@@ -0,0 +1,216 @@
+/**
+ * Utility functions for translating the built-in strings of status messages.
+ *
+ * Every text the components produce on their own, such as `42 more lines`,
+ * `2m ago` or `Caused by:`, is looked up in a message catalog by a typed key.
+ * Entries are plain strings or plural forms selected with `Intl.PluralRules`,
+ * and may interpolate `{name}` parameters.
+ *
+ * @example
+ * ```typescript
+ * const translate = createStatusMessageTranslate("de", {
+ *   ...statusMessageCatalog,
+ *   "details.moreLines": {
+ *     one: "{count} weitere Zeile",
+ *     other: "{count} weitere Zeilen",
+ *   },
+ * });
+ *
+ * translate("details.moreLines", { count: 3 });
+ * // "3 weitere Zeilen"
+ * ```
+ */
+
+/**
+ * Plural forms of a catalog entry, keyed by the categories of
+ * `Intl.PluralRules`. `other` is required as the fallback of every category.
+ */
+export type StatusMessagePluralForms = Partial<
+  Record<Intl.LDMLPluralRule, string>
+> & { other: string };
+
+/**
+ * A catalog entry: a string, or plural forms selected by the `count`
+ * parameter.
+ */
+export type StatusMessageText = string | StatusMessagePluralForms;
+
+/**
+ * Message catalog of the built-in strings.
+ *
+ * Variant-specific entries are keyed by the variant name: `label.<variant>`
+ * translates the accessible label, which falls back to the `label` of the
+ * variant definition, and `group.count.<variant>` the per-variant count of
+ * `StatusMessageGroup`, which falls back to `group.count`.
+ */
+export interface StatusMessageCatalog {
+  /** Key hint toggling collapsed details open. */
+  "details.expand": string;
+  /** Key hint toggling expanded details closed. */
+  "details.collapse": string;
+  /** Summary of collapsed details, with `{count}`. */
+  "details.moreLines": StatusMessageText;
+  /** Summary of expanded details, with `{count}`. */
+  "details.lineCount": StatusMessageText;
+  /** Repeat counter, with `{count}` and the `{times}` sign. */
+  "repeat.count": StatusMessageText;
+  /** Time a repeated message was last seen, with `{time}`. */
+  "repeat.lastSeen": string;
+  /** Relative timestamp under a second. */
+  "time.justNow": string;
+  /** Relative timestamp in seconds, with `{count}`. */
+  "time.secondsAgo": StatusMessageText;
+  /** Relative timestamp in minutes, with `{count}`. */
+  "time.minutesAgo": StatusMessageText;
+  /** Relative timestamp in hours, with `{count}`. */
+  "time.hoursAgo": StatusMessageText;
+  /** Relative timestamp in days, with `{count}`. */
+  "time.daysAgo": StatusMessageText;
+  /** Accessible label of indeterminate progress. */
+  "progress.inProgress": string;
+  /** Estimated time left, with `{duration}`. */
+  "progress.timeLeft": string;
+  /** Duration under a minute, with `{seconds}`. */
+  "duration.seconds": string;
+  /** Duration under an hour, with `{minutes}` and zero-padded `{seconds}`. */
+  "duration.minutes": string;
+  /** Duration of an hour or more, with `{hours}` and zero-padded `{minutes}`. */
+  "duration.hours": string;
+  /** Seconds before a message expires, with `{count}`. */
+  "countdown.seconds": StatusMessageText;
+  /** Summary of messages beyond `maxVisible`, with `{count}`. */
+  "list.moreMessages": StatusMessageText;
+  /** Summary of messages below `minSeverity`, with `{count}`. */
+  "severity.hiddenMessages": StatusMessageText;
+  /** Count of a variant without its own entry, with `{count}` and `{variant}`. */
+  "group.count": StatusMessageText;
+  /** Label of the cause of an error. */
+  "error.causedBy": string;
+  /** Summary of a hidden stack trace, with `{count}`. */
+  "error.stackFrames": StatusMessageText;
+  /** Accessible label of a variant, e.g. `label.error`. */
+  [key: `label.${string}`]: string;
+  /** Count of a variant, with `{count}`, e.g. `group.count.error`. */
+  [key: `group.count.${string}`]: StatusMessageText;
+}
+
+/**
+ * Key of a catalog entry.
+ */
+export type StatusMessageMessageKey = keyof StatusMessageCatalog & string;
+
+/**
+ * Parameters interpolated into a catalog entry. `count` also selects the
+ * plural form, and `defaultValue` is returned for keys missing from the
+ * catalog.
+ */
+export interface StatusMessageMessageParams {
+  readonly count?: number;
+  readonly defaultValue?: string;
+  readonly [name: string]: string | number | undefined;
+}
+
+/**
+ * Looks up and formats a catalog entry.
+ */
+export type StatusMessageTranslate = (
+  key: StatusMessageMessageKey,
+  params?: StatusMessageMessageParams,
+) => string;
+
+/**
+ * Default English catalog.
+ */
+export const statusMessageCatalog: StatusMessageCatalog = {
+  "details.expand": "expand",
+  "details.collapse": "collapse",
+  "details.moreLines": {
+    one: "{count} more line",
+    other: "{count} more lines",
+  },
+  "details.lineCount": { one: "{count} line", other: "{count} lines" },
+  "repeat.count": "{times}{count}",
+  "repeat.lastSeen": "last seen {time}",
+  "time.justNow": "just now",
+  "time.secondsAgo": "{count}s ago",
+  "time.minutesAgo": "{count}m ago",
+  "time.hoursAgo": "{count}h ago",
+  "time.daysAgo": "{count}d ago",
+  "progress.inProgress": "in progress",
+  "progress.timeLeft": "{duration} left",
+  "duration.seconds": "{seconds}s",
+  "duration.minutes": "{minutes}m {seconds}s",
+  "duration.hours": "{hours}h {minutes}m",
+  "countdown.seconds": "{count}s",
+  "list.moreMessages": "+{count} more",
+  "severity.hiddenMessages": {
+    one: "{count} message hidden",
+    other: "{count} messages hidden",
+  },
+  "group.count": "{count} {variant}",
+  "group.count.error": { one: "{count} error", other: "{count} errors" },
+  "group.count.warning": {
+    one: "{count} warning",
+    other: "{count} warnings",
+  },
+  "group.count.success": {
+    one: "{count} success",
+    other: "{count} successes",
+  },
+  "group.count.info": "{count} info",
+  "group.count.debug": {
+    one: "{count} debug message",
+    other: "{count} debug messages",
+  },
+  "group.count.tip": { one: "{count} tip", other: "{count} tips" },
+  "group.count.pending": "{count} pending",
+  "error.causedBy": "Caused by:",
+  "error.stackFrames": {
+    one: "{count} stack frame",
+    other: "{count} stack frames",
+  },
+};
+
+/**
+ * Creates a function translating catalog keys.
+ *
+ * @param {string} locale - BCP 47 locale selecting the plural rules
+ * @param {StatusMessageCatalog} catalog - The message catalog
+ * @returns {StatusMessageTranslate} The translate function
+ *
+ * Keys missing from the catalog resolve to `params.defaultValue`, or to the
+ * key itself.
+ */
+export function createStatusMessageTranslate(
+  locale: string,
+  catalog: StatusMessageCatalog,
+): StatusMessageTranslate {
+  const pluralRules = new Intl.PluralRules(locale);
+
+  return (key, params = {}) => {
+    const entry = catalog[key] as StatusMessageText | undefined;
+
+    if (entry === undefined) {
+      return params.defaultValue ?? key;
+    }
+
+    const text =
+      typeof entry === "string"
+        ? entry
+        : (entry[pluralRules.select(params.count ?? 0)] ?? entry.other);
+
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+
+      return value === undefined ? placeholder : String(value);
+    });
+  };
+}
+
+/**
+ * Translate function of the default English catalog.
+ */
+export const translateStatusMessage = createStatusMessageTranslate(
+  "en",
+  statusMessageCatalog,
+);
@@ -0,0 +1,71 @@
+/**
+ * Utility functions for extracting plain text from React nodes.
+ */
+
+import { Fragment, isValidElement, type ReactNode } from "react";
+import { formatHyperlink } from "./hyperlink.js";
+
+/**
+ * Returns the text content of a React node.
+ *
+ * @param {ReactNode} node - The node to read
+ * @returns {string} Concatenated strings and numbers found in the node and
+ *   the children of its elements
+ *
+ * Booleans, null and undefined contribute nothing, like they render nothing.
+ * Elements with an `href` prop, such as `StatusMessage.Link`, contribute
+ * `text (url)`. The children of elements with `flexDirection="column"`, such
+ * as a column `Box`, contribute one line each.
+ */
+export function toPlainText(node: ReactNode): string {
+  if (typeof node === "string" || typeof node === "number") {
+    return String(node);
+  }
+
+  if (Array.isArray(node)) {
+    return node.map(toPlainText).join("");
+  }
+
+  if (
+    isValidElement<{
+      children?: ReactNode;
+      href?: unknown;
+      flexDirection?: unknown;
+    }>(node)
+  ) {
+    if (node.props.flexDirection === "column") {
+      return flattenChildren(node.props.children)
+        .map(toPlainText)
+        .filter(Boolean)
+        .join("\n");
+    }
+
+    const text = toPlainText(node.props.children);
+
+    return typeof node.props.href === "string"
+      ? formatHyperlink(text, node.props.href, false)
+      : text;
+  }
+
+  return "";
+}
+
+/**
+ * Flattens arrays and fragments into the list of nodes they render.
+ *
+ * @private
+ */
+function flattenChildren(node: ReactNode): ReactNode[] {
+  if (Array.isArray(node)) {
+    return node.flatMap(flattenChildren);
+  }
+
+  if (
+    isValidElement<{ children?: ReactNode }>(node) &&
+    node.type === Fragment
+  ) {
+    return flattenChildren(node.props.children);
+  }
+
+  return [node];
+}
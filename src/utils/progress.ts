@@ -0,0 +1,146 @@
+/**
+ * Utility functions for the progress bars of status messages.
+ *
+ * Normalizes progress values and draws determinate and indeterminate bars
+ * with Unicode or ASCII characters.
+ */
+
+import {
+  type StatusMessageTranslate,
+  translateStatusMessage,
+} from "./messages.js";
+
+/**
+ * Progress of a status message: a fraction from 0 to 1, a count of completed
+ * steps, or `indeterminate` for work of unknown length.
+ */
+export type StatusMessageProgress =
+  number | { current: number; total: number } | "indeterminate";
+
+/**
+ * Number of cells of the moving block of indeterminate bars.
+ */
+const indeterminateBlock = 3;
+
+/**
+ * Resolves progress to a fraction clamped to 0–1, or undefined when it is
+ * indeterminate.
+ *
+ * @param {StatusMessageProgress} progress - The progress value
+ * @returns {number | undefined} The completed fraction
+ */
+export function resolveProgressFraction(
+  progress: StatusMessageProgress,
+): number | undefined {
+  if (progress === "indeterminate") {
+    return undefined;
+  }
+
+  const fraction =
+    typeof progress === "number"
+      ? progress
+      : progress.total > 0
+        ? progress.current / progress.total
+        : 0;
+
+  return Number.isFinite(fraction) ? Math.min(1, Math.max(0, fraction)) : 0;
+}
+
+/**
+ * Draws the filled and empty parts of a determinate bar.
+ *
+ * @param {number} fraction - Completed fraction from 0 to 1
+ * @param {number} width - Number of cells
+ * @param {boolean} unicode - Whether to use block characters
+ * @returns {[string, string]} The filled and the empty part
+ *
+ * @example
+ * ```typescript
+ * drawProgressBar(0.5, 10, false);
+ * // ["#####", "-----"]
+ * ```
+ */
+export function drawProgressBar(
+  fraction: number,
+  width: number,
+  unicode: boolean,
+): [string, string] {
+  const filled = Math.round(fraction * width);
+
+  return [
+    (unicode ? "█" : "#").repeat(filled),
+    (unicode ? "░" : "-").repeat(width - filled),
+  ];
+}
+
+/**
+ * Number of animation frames of an indeterminate bar, bouncing a block from
+ * one end to the other and back.
+ *
+ * @param {number} width - Number of cells
+ * @returns {number} The frame count
+ */
+export function countIndeterminateFrames(width: number): number {
+  return Math.max(1, 2 * (width - indeterminateBlock));
+}
+
+/**
+ * Draws a frame of an indeterminate bar.
+ *
+ * @param {number} frame - Index of the animation frame
+ * @param {number} width - Number of cells
+ * @param {boolean} unicode - Whether to use block characters
+ * @returns {[string, string, string]} The empty part before the block, the
+ *   block and the empty part after it
+ */
+export function drawIndeterminateBar(
+  frame: number,
+  width: number,
+  unicode: boolean,
+): [string, string, string] {
+  const block = Math.min(indeterminateBlock, width);
+  const travel = width - block;
+  const cycle = frame % countIndeterminateFrames(width);
+  const offset = travel > 0 && cycle > travel ? 2 * travel - cycle : cycle;
+  const start = Math.min(offset, travel);
+  const empty = unicode ? "░" : "-";
+
+  return [
+    empty.repeat(start),
+    (unicode ? "█" : "#").repeat(block),
+    empty.repeat(width - start - block),
+  ];
+}
+
+/**
+ * Formats a duration as whole seconds, minutes and seconds, or hours and
+ * minutes, e.g. `1m 05s`.
+ *
+ * @param {number} milliseconds - The duration
+ * @param {StatusMessageTranslate} [translate] - Translates the `duration.*`
+ *   catalog entries, English by default
+ * @returns {string} The formatted duration
+ */
+export function formatDuration(
+  milliseconds: number,
+  translate: StatusMessageTranslate = translateStatusMessage,
+): string {
+  const seconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  if (seconds < 60) {
+    return translate("duration.seconds", { seconds });
+  }
+
+  if (seconds < 3600) {
+    return translate("duration.minutes", {
+      minutes: Math.floor(seconds / 60),
+      seconds: pad(seconds % 60),
+    });
+  }
+
+  return translate("duration.hours", {
+    hours: Math.floor(seconds / 3600),
+    minutes: pad(Math.floor((seconds % 3600) / 60)),
+  });
+}
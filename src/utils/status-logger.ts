@@ -0,0 +1,340 @@
+/**
+ * Utility functions bridging level-based loggers to status messages.
+ *
+ * `createStatusLogger` turns log records into status messages, mapping log
+ * levels onto variants and rendering fields as aligned key/value details. Its
+ * `stream` accepts JSON lines, so loggers such as pino can write to it.
+ *
+ * @example
+ * ```tsx
+ * import {
+ *   createStatusLogger,
+ *   StatusMessageList,
+ *   StatusMessageProvider,
+ * } from "tinky-status-message";
+ *
+ * const logger = createStatusLogger();
+ * const log = pino(logger.stream);
+ *
+ * render(
+ *   <StatusMessageProvider logger={logger}>
+ *     <StatusMessageList maxVisible={10} />
+ *   </StatusMessageProvider>,
+ * );
+ *
+ * log.warn({ attempt: 2, host: "db-1" }, "Retrying connection");
+ * // ⚠ Retrying connection
+ * //   attempt  2
+ * //   host     db-1
+ * ```
+ */
+
+import { type StatusMessageInput } from "../types/status-message-queue-types.js";
+import { type StatusMessageVariant } from "../types/status-message-types.js";
+
+/**
+ * Log levels understood by `createStatusLogger`.
+ */
+export type StatusLogLevel =
+  "trace" | "debug" | "info" | "warn" | "error" | "fatal";
+
+/**
+ * A log record turned into a status message.
+ */
+export interface StatusLogRecord {
+  /**
+   * Level of the record, e.g. `warn`. Numeric pino levels are accepted.
+   */
+  level: StatusLogLevel | (string & {}) | number;
+
+  /**
+   * The log message.
+   */
+  message: string;
+
+  /**
+   * Structured fields rendered as key/value details.
+   */
+  fields?: Record<string, unknown>;
+
+  /**
+   * Time of the record, rendered as the message timestamp.
+   */
+  time?: Date | number;
+}
+
+/**
+ * Options for `createStatusLogger`.
+ */
+export interface StatusLoggerOptions {
+  /**
+   * Variants of the log levels, merged over the default table. Records with
+   * levels missing from the table use the `info` variant.
+   */
+  levels?: Partial<Record<string, StatusMessageVariant>>;
+
+  /**
+   * Fields of JSON lines that are not rendered.
+   *
+   * @default ["pid", "hostname", "v"]
+   */
+  ignoreFields?: readonly string[];
+
+  /**
+   * Number of records kept while disconnected. The oldest records are
+   * dropped beyond it.
+   *
+   * @default 100
+   */
+  maxPending?: number;
+}
+
+/**
+ * Stream-like sink accepting newline-delimited JSON log records.
+ */
+export interface StatusLogStream {
+  /**
+   * Writes a chunk of JSON lines. Incomplete lines are kept until the rest
+   * arrives.
+   */
+  write(chunk: string | Uint8Array): boolean;
+
+  /**
+   * Flushes a final line without trailing newline.
+   */
+  end(chunk?: string | Uint8Array): void;
+}
+
+/**
+ * Logger turning log records into status messages.
+ */
+export interface StatusLogger {
+  /**
+   * Logs a record.
+   */
+  log(record: StatusLogRecord): void;
+
+  trace(message: string, fields?: Record<string, unknown>): void;
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+  fatal(message: string, fields?: Record<string, unknown>): void;
+
+  /**
+   * Sink for JSON-line loggers.
+   */
+  readonly stream: StatusLogStream;
+
+  /**
+   * Sends messages to `push`, e.g. of `useStatusMessages()`, starting with
+   * the last `maxPending` records logged while disconnected. Returns a
+   * function disconnecting the logger again. `StatusMessageProvider`
+   * connects its `logger`.
+   */
+  connect(push: (message: StatusMessageInput) => string): () => void;
+}
+
+/**
+ * Default variants of the log levels.
+ */
+export const statusLogLevels: Readonly<Record<string, StatusMessageVariant>> = {
+  trace: "debug",
+  debug: "debug",
+  info: "info",
+  warn: "warning",
+  error: "error",
+  fatal: "error",
+};
+
+/**
+ * Names of the numeric pino levels.
+ */
+const numericLevels: Readonly<Record<number, StatusLogLevel>> = {
+  10: "trace",
+  20: "debug",
+  30: "info",
+  40: "warn",
+  50: "error",
+  60: "fatal",
+};
+
+/**
+ * Formats fields as `key value` lines with the values aligned.
+ *
+ * @param {Record<string, unknown>} fields - Fields of a log record
+ * @returns {string | undefined} The aligned lines, or undefined without fields
+ *
+ * @example
+ * ```typescript
+ * formatLogFields({ attempt: 2, host: "db-1" });
+ * // "attempt  2\nhost     db-1"
+ * ```
+ */
+export function formatLogFields(
+  fields: Record<string, unknown>,
+): string | undefined {
+  const entries = Object.entries(fields).filter(
+    ([, value]) => value !== undefined,
+  );
+
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  const width = Math.max(...entries.map(([key]) => key.length));
+
+  return entries
+    .map(([key, value]) => `${key.padEnd(width)}  ${formatFieldValue(value)}`)
+    .join("\n");
+}
+
+/**
+ * Creates a logger that renders log records as status messages.
+ *
+ * @param {StatusLoggerOptions} [options] - Level table and ignored fields
+ * @returns {StatusLogger} The logger, to be connected to a message queue
+ */
+export function createStatusLogger(
+  options: StatusLoggerOptions = {},
+): StatusLogger {
+  const levels = { ...statusLogLevels, ...options.levels };
+  const ignoreFields = new Set(
+    options.ignoreFields ?? ["pid", "hostname", "v"],
+  );
+  const { maxPending = 100 } = options;
+  const pending: StatusMessageInput[] = [];
+  let target: ((message: StatusMessageInput) => string) | undefined;
+  let buffer = "";
+
+  const log = (record: StatusLogRecord) => {
+    const level =
+      typeof record.level === "number"
+        ? numericLevels[record.level]
+        : record.level;
+    const message: StatusMessageInput = {
+      variant:
+        (level !== undefined && Object.hasOwn(levels, level)
+          ? levels[level]
+          : undefined) ?? "info",
+      message: record.message,
+      details: record.fields && formatLogFields(record.fields),
+      timestamp: record.time,
+    };
+
+    if (target) {
+      target(message);
+    } else {
+      pending.push(message);
+      if (pending.length > maxPending) {
+        pending.shift();
+      }
+    }
+  };
+
+  const writeLine = (line: string) => {
+    if (line.trim() === "") {
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      parsed = undefined;
+    }
+
+    if (typeof parsed !== "object" || parsed === null) {
+      log({ level: "info", message: line });
+      return;
+    }
+
+    const { level, msg, message, time, ...rest } = parsed as Record<
+      string,
+      unknown
+    >;
+    const fields = Object.fromEntries(
+      Object.entries(rest).filter(([name]) => !ignoreFields.has(name)),
+    );
+
+    log({
+      level: typeof level === "number" ? level : String(level ?? "info"),
+      message: String(msg ?? message ?? ""),
+      fields,
+      time:
+        typeof time === "number" || typeof time === "string"
+          ? new Date(time)
+          : undefined,
+    });
+  };
+
+  const decoder = new TextDecoder();
+  const stream: StatusLogStream = {
+    write(chunk) {
+      buffer +=
+        typeof chunk === "string"
+          ? chunk
+          : decoder.decode(chunk, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      lines.forEach(writeLine);
+
+      return true;
+    },
+    end(chunk) {
+      if (chunk !== undefined) {
+        stream.write(chunk);
+      }
+      writeLine(buffer);
+      buffer = "";
+    },
+  };
+
+  const byLevel =
+    (level: StatusLogLevel) =>
+    (message: string, fields?: Record<string, unknown>) => {
+      log({ level, message, fields });
+    };
+
+  return {
+    log,
+    trace: byLevel("trace"),
+    debug: byLevel("debug"),
+    info: byLevel("info"),
+    warn: byLevel("warn"),
+    error: byLevel("error"),
+    fatal: byLevel("fatal"),
+    stream,
+    connect(push) {
+      target = push;
+      pending.splice(0).forEach((message) => push(message));
+
+      return () => {
+        if (target === push) {
+          target = undefined;
+        }
+      };
+    },
+  };
+}
+
+/**
+ * Formats a field value: strings as they are, other values as JSON. Values
+ * JSON can't represent, such as bigints or circular objects, are converted
+ * with `String`.
+ */
+function formatFieldValue(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+
+  if (value instanceof Error) {
+    return value.message;
+  }
+
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Utility functions for terminal capability detection.
+ *
+ * Detects from environment variables and the platform whether a terminal
+ * renders Unicode, how many colors it supports, whether it understands
+ * OSC 8 hyperlinks and how wide it draws emoji.
+ */
+
+/**
+ * Color depth supported by a terminal.
+ *
+ * - `none`: No colors
+ * - `16`: Basic ANSI colors
+ * - `256`: ANSI 256 color palette
+ * - `truecolor`: 24-bit RGB colors
+ */
+export type TerminalColorDepth = "none" | "16" | "256" | "truecolor";
+
+/**
+ * Capabilities of the terminal status messages are rendered to.
+ */
+export interface TerminalCapabilities {
+  /**
+   * Whether Unicode figures render correctly.
+   */
+  readonly unicode: boolean;
+
+  /**
+   * Supported color depth.
+   */
+  readonly colorDepth: TerminalColorDepth;
+
+  /**
+   * Whether OSC 8 hyperlinks are supported.
+   */
+  readonly hyperlinks: boolean;
+
+  /**
+   * Number of columns an emoji occupies.
+   */
+  readonly emojiWidth: 1 | 2;
+}
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * CI providers whose logs render basic ANSI colors.
+ */
+const COLOR_CI_VARIABLES = [
+  "TRAVIS",
+  "CIRCLECI",
+  "APPVEYOR",
+  "GITLAB_CI",
+  "BUILDKITE",
+  "DRONE",
+];
+
+/**
+ * Detects the capabilities of a terminal.
+ *
+ * @param {Record<string, string | undefined>} [env=process.env] - Environment variables
+ * @param {string} [platform=process.platform] - Platform, e.g. `win32`
+ * @returns {TerminalCapabilities} The detected capabilities
+ */
+export function detectTerminalCapabilities(
+  env: Env = process.env,
+  platform: string = process.platform,
+): TerminalCapabilities {
+  const windows = platform === "win32";
+  const legacyConsole = (windows && !env.WT_SESSION) || env.TERM === "linux";
+
+  return {
+    unicode: detectUnicode(env, windows),
+    colorDepth: detectColorDepth(env, windows),
+    hyperlinks: detectHyperlinks(env),
+    emojiWidth: legacyConsole ? 1 : 2,
+  };
+}
+
+/**
+ * Detects Unicode support from the locale and the terminal.
+ */
+function detectUnicode(env: Env, windows: boolean): boolean {
+  const locale = env.LC_ALL || env.LC_CTYPE || env.LANG || "";
+
+  if (/utf-?8/i.test(locale)) {
+    return true;
+  }
+
+  if (!windows) {
+    return locale === "" && env.TERM !== "linux";
+  }
+
+  return (
+    Boolean(env.WT_SESSION) ||
+    Boolean(env.CI) ||
+    Boolean(env.TERMINUS_SUBLIME) ||
+    env.ConEmuTask === "{cmd::Cmder}" ||
+    env.TERM_PROGRAM === "vscode" ||
+    env.TERM === "xterm-256color" ||
+    env.TERM === "alacritty" ||
+    env.TERMINAL_EMULATOR === "JetBrains-JediTerm"
+  );
+}
+
+/**
+ * Detects the color depth from `NO_COLOR`, `FORCE_COLOR`, CI variables and
+ * the terminal.
+ */
+function detectColorDepth(env: Env, windows: boolean): TerminalColorDepth {
+  if (env.NO_COLOR !== undefined && env.NO_COLOR !== "") {
+    return "none";
+  }
+
+  if (env.FORCE_COLOR !== undefined) {
+    const depths: Record<string, TerminalColorDepth> = {
+      "": "16",
+      "0": "none",
+      false: "none",
+      "1": "16",
+      true: "16",
+      "2": "256",
+      "3": "truecolor",
+    };
+
+    return depths[env.FORCE_COLOR] ?? "16";
+  }
+
+  const term = env.TERM ?? "";
+
+  if (term === "dumb") {
+    return "none";
+  }
+
+  if (env.GITHUB_ACTIONS || env.GITEA_ACTIONS) {
+    return "truecolor";
+  }
+
+  if (env.CI !== undefined) {
+    return COLOR_CI_VARIABLES.some((name) => name in env) ? "16" : "none";
+  }
+
+  if (env.COLORTERM === "truecolor" || env.COLORTERM === "24bit") {
+    return "truecolor";
+  }
+
+  if (windows) {
+    return env.WT_SESSION ? "truecolor" : "16";
+  }
+
+  switch (env.TERM_PROGRAM) {
+    case "iTerm.app":
+    case "vscode":
+    case "WezTerm":
+    case "ghostty":
+      return "truecolor";
+    case "Apple_Terminal":
+      return "256";
+  }
+
+  if (/-256(color)?$/i.test(term)) {
+    return "256";
+  }
+
+  if (
+    /^(screen|xterm|vt100|vt220|rxvt)|color|ansi|cygwin|linux/i.test(term) ||
+    env.COLORTERM
+  ) {
+    return "16";
+  }
+
+  return "none";
+}
+
+/**
+ * Detects OSC 8 hyperlink support from `FORCE_HYPERLINK` and the terminal.
+ */
+function detectHyperlinks(env: Env): boolean {
+  if (env.FORCE_HYPERLINK !== undefined) {
+    return env.FORCE_HYPERLINK !== "0" && env.FORCE_HYPERLINK !== "false";
+  }
+
+  if (env.CI !== undefined || env.TERM === "dumb") {
+    return false;
+  }
+
+  if (env.WT_SESSION || env.KONSOLE_VERSION || env.DOMTERM) {
+    return true;
+  }
+
+  if (env.TERM === "xterm-kitty") {
+    return true;
+  }
+
+  if (
+    env.TERM_PROGRAM === "iTerm.app" ||
+    env.TERM_PROGRAM === "vscode" ||
+    env.TERM_PROGRAM === "WezTerm" ||
+    env.TERM_PROGRAM === "ghostty"
+  ) {
+    return true;
+  }
+
+  return Number(env.VTE_VERSION ?? 0) >= 5000;
+}
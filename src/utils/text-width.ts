@@ -0,0 +1,142 @@
+/**
+ * Utility functions for measuring the display width of text.
+ *
+ * Counts the terminal columns text occupies, treating wide CJK characters as
+ * two columns, emoji as the number of columns the terminal draws them with,
+ * and combining marks as none.
+ */
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+
+/**
+ * Characters taking no columns of their own: combining marks, variation
+ * selectors, control characters and format characters such as zero-width
+ * joiners.
+ */
+const zeroWidth = /[\p{Mn}\p{Me}\p{Cc}\p{Cf}]/gu;
+
+/**
+ * Emoji drawn as pictographs by default, including flags built of regional
+ * indicators.
+ */
+const emojiPresentation = /\p{Emoji_Presentation}/u;
+
+/**
+ * Pictographs drawn as emoji when followed by the emoji variation selector,
+ * e.g. `⚠️`.
+ */
+const pictograph = /\p{Extended_Pictographic}/u;
+
+/**
+ * Splits text into grapheme clusters, the units the terminal draws in one
+ * cell or two.
+ *
+ * @param {string} text - The text to split
+ * @returns {string[]} The grapheme clusters
+ */
+export function splitGraphemes(text: string): string[] {
+  return Array.from(segmenter.segment(text), (part) => part.segment);
+}
+
+/**
+ * Measures the columns of a single grapheme cluster.
+ *
+ * @param {string} grapheme - A grapheme cluster
+ * @param {number} [emojiWidth=2] - Columns of an emoji
+ * @returns {number} 0, 1, 2 or `emojiWidth`
+ */
+export function measureGrapheme(grapheme: string, emojiWidth = 2): number {
+  if (
+    emojiPresentation.test(grapheme) ||
+    (pictograph.test(grapheme) && grapheme.includes("\uFE0F"))
+  ) {
+    return emojiWidth;
+  }
+
+  const base = grapheme.replace(zeroWidth, "");
+  const codePoint = base.codePointAt(0);
+
+  if (codePoint === undefined) {
+    return 0;
+  }
+
+  return isWideCodePoint(codePoint) ? 2 : 1;
+}
+
+/**
+ * Measures the columns text occupies on a single line.
+ *
+ * @param {string} text - The text to measure
+ * @param {number} [emojiWidth=2] - Columns of an emoji, see
+ *   `TerminalCapabilities.emojiWidth`
+ * @returns {number} The display width
+ *
+ * @example
+ * ```typescript
+ * measureText("ビルド完了");
+ * // 10
+ * ```
+ */
+export function measureText(text: string, emojiWidth = 2): number {
+  return splitGraphemes(text).reduce(
+    (width, grapheme) => width + measureGrapheme(grapheme, emojiWidth),
+    0,
+  );
+}
+
+/**
+ * Graphemes tinky's layout engine counts as two columns regardless of how the
+ * terminal draws them: anything with an emoji form, including pictographs
+ * shown as text by default such as `ℹ` or `✔`, but not the bare digits and
+ * regional indicators emoji sequences are built of.
+ */
+const layoutEmoji =
+  /[^\P{Emoji}0-9#*\u{1F1E6}-\u{1F1FF}]|\p{Emoji}\uFE0F|\p{Regional_Indicator}{2}/u;
+
+/**
+ * Measures the columns tinky's layout engine reserves for text on a single
+ * line.
+ *
+ * Differs from `measureText` only for pictographs with an emoji form, which
+ * the layout engine counts as two columns even where the terminal draws
+ * them in one. Boxes sized to such text, like the icon column of a status
+ * message, are wider than the text they hold.
+ *
+ * @param {string} text - The text to measure
+ * @returns {number} The width of the text in the layout
+ *
+ * @example
+ * ```typescript
+ * measureLayoutText("ℹ");
+ * // 2
+ * ```
+ */
+export function measureLayoutText(text: string): number {
+  return splitGraphemes(text).reduce(
+    (width, grapheme) =>
+      width + (layoutEmoji.test(grapheme) ? 2 : measureGrapheme(grapheme, 2)),
+    0,
+  );
+}
+
+/**
+ * Tests whether a code point is East Asian Wide or Fullwidth.
+ */
+function isWideCodePoint(codePoint: number): boolean {
+  return (
+    (codePoint >= 0x1100 && codePoint <= 0x115f) ||
+    (codePoint >= 0x2e80 && codePoint <= 0x303e) ||
+    (codePoint >= 0x3041 && codePoint <= 0x33ff) ||
+    (codePoint >= 0x3400 && codePoint <= 0x4dbf) ||
+    (codePoint >= 0x4e00 && codePoint <= 0x9fff) ||
+    (codePoint >= 0xa000 && codePoint <= 0xa4cf) ||
+    (codePoint >= 0xa960 && codePoint <= 0xa97f) ||
+    (codePoint >= 0xac00 && codePoint <= 0xd7a3) ||
+    (codePoint >= 0xf900 && codePoint <= 0xfaff) ||
+    (codePoint >= 0xfe30 && codePoint <= 0xfe4f) ||
+    (codePoint >= 0xff00 && codePoint <= 0xff60) ||
+    (codePoint >= 0xffe0 && codePoint <= 0xffe6) ||
+    (codePoint >= 0x1b000 && codePoint <= 0x1b2ff) ||
+    (codePoint >= 0x20000 && codePoint <= 0x3fffd)
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * Utility functions for formatting times in status messages.
+ */
+
+import {
+  type StatusMessageMessageKey,
+  type StatusMessageTranslate,
+  translateStatusMessage,
+} from "./messages.js";
+
+/**
+ * How message timestamps are rendered.
+ *
+ * - `absolute`: Time of day, e.g. `14:03:12`
+ * - `relative`: Time elapsed, e.g. `2m ago`
+ */
+export type StatusMessageTimestampFormat = "absolute" | "relative";
+
+/**
+ * Source of the current time in milliseconds since the epoch, like
+ * `Date.now`.
+ */
+export type StatusMessageClock = () => number;
+
+/**
+ * Formats the local time of day as `HH:MM:SS`.
+ *
+ * @param {Date | number} time - Date or milliseconds since the epoch
+ * @returns {string} The zero-padded time of day
+ */
+export function formatClockTime(time: Date | number): string {
+  const date = new Date(time);
+
+  return [date.getHours(), date.getMinutes(), date.getSeconds()]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":");
+}
+
+/**
+ * Relative time units from largest to smallest, in milliseconds.
+ */
+const relativeUnits: readonly (readonly [StatusMessageMessageKey, number])[] = [
+  ["time.daysAgo", 86_400_000],
+  ["time.hoursAgo", 3_600_000],
+  ["time.minutesAgo", 60_000],
+  ["time.secondsAgo", 1000],
+];
+
+/**
+ * Formats the time elapsed since `time` in its largest whole unit, e.g.
+ * `2m ago`.
+ *
+ * @param {Date | number} time - Date or milliseconds since the epoch
+ * @param {number} now - Current time in milliseconds since the epoch
+ * @param {StatusMessageTranslate} [translate] - Translates the `time.*`
+ *   catalog entries, English by default
+ * @returns {string} The elapsed time, or `just now` under a second and for
+ *   times in the future
+ */
+export function formatRelativeTime(
+  time: Date | number,
+  now: number,
+  translate: StatusMessageTranslate = translateStatusMessage,
+): string {
+  const elapsed = now - new Date(time).getTime();
+
+  for (const [key, size] of relativeUnits) {
+    if (elapsed >= size) {
+      return translate(key, { count: Math.floor(elapsed / size) });
+    }
+  }
+
+  return translate("time.justNow");
+}
@@ -1,27 +1,25 @@
 /**
  * Utility functions for Unicode support detection.
  *
- * Provides functionality to detect Unicode support in terminal environments
- * and provide appropriate fallback characters for unsupported environments.
+ * Kept for compatibility; `detectTerminalCapabilities` reports Unicode
+ * support together with the other terminal capabilities.
  */
 
+import { detectTerminalCapabilities } from "./terminal-capabilities.js";
+
+/**
+ * Detects whether the terminal renders Unicode figures.
+ *
+ * @param {Record<string, string | undefined>} [env=process.env] - Environment variables
+ * @param {string} [platform] - Platform, defaulting to the legacy `env.platform`
+ *   key and then `process.platform`
+ * @returns {boolean} True when Unicode is supported
+ *
+ * @deprecated Use `detectTerminalCapabilities(env, platform).unicode`.
+ */
 export function isUnicodeSupported(
-  env: Record<string, string | undefined> = {},
+  env: Record<string, string | undefined> = process.env,
+  platform: string = env.platform ?? process.platform,
 ): boolean {
-  const lang = env.LANG || "";
-  const hasUtf8Locale = lang.toLowerCase().includes("utf-8");
-
-  const colorterm = env.COLORTERM || "";
-  const termProgram = env.TERM_PROGRAM || "";
-  const hasModernTerminal =
-    colorterm.includes("truecolor") ||
-    colorterm.includes("24bit") ||
-    termProgram.includes("vscode") ||
-    termProgram.includes("iTerm.app") ||
-    termProgram.includes("Terminal.app");
-
-  const platform = env.platform || "";
-  const isWindows = platform === "win32";
-
-  return hasUtf8Locale || hasModernTerminal || !isWindows;
+  return detectTerminalCapabilities(env, platform).unicode;
 }
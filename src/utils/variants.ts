@@ -0,0 +1,169 @@
+/**
+ * Utility functions for resolving status message variants.
+ *
+ * Looks up variant definitions in the theme registry, turns their icons into
+ * terminal-appropriate glyphs, labels them for accessible mode and resolves
+ * their ordered severity levels.
+ */
+
+import statusMessageVariants from "../themes/status-message-variants.js";
+import {
+  type StatusMessageFigures,
+  type StatusMessageIcon,
+  type StatusMessageIconResolver,
+  type StatusMessageSeverity,
+  type StatusMessageSeverityThreshold,
+  type StatusMessageTimestampPosition,
+  type StatusMessageVariant,
+  type StatusMessageVariantDefinition,
+} from "../types/status-message-types.js";
+
+/**
+ * Shape of `statusMessageTheme.config` once resolved.
+ */
+export interface StatusMessageThemeConfig {
+  variants: Partial<
+    Record<StatusMessageVariant, StatusMessageVariantDefinition>
+  >;
+  timestampPosition: StatusMessageTimestampPosition;
+  progressWidth: number;
+  resolveIcon?: StatusMessageIconResolver;
+  colorMessage: boolean;
+}
+
+/**
+ * Resolves the theme config, which may be an object or a function of the
+ * theme props.
+ */
+export function resolveThemeConfig<P>(
+  config:
+    | Record<string, unknown>
+    | ((props: P) => Record<string, unknown>)
+    | undefined,
+  props: P,
+): StatusMessageThemeConfig {
+  const resolved = typeof config === "function" ? config(props) : config;
+
+  return {
+    variants: statusMessageVariants,
+    timestampPosition: "after",
+    progressWidth: 20,
+    colorMessage: false,
+    ...resolved,
+  } as StatusMessageThemeConfig;
+}
+
+/**
+ * Puts the arrays of a theme override back over a deep-merged theme value.
+ *
+ * The deep merge of tinky-theme combines arrays index by index, which would
+ * keep the tail of longer default arrays such as spinner frames. Values that
+ * are not plain objects or arrays, including config functions, are kept as
+ * merged.
+ */
+export function replaceMergedArrays<T>(merged: T, override: unknown): T {
+  if (Array.isArray(override)) {
+    return [...(override as unknown[])] as T;
+  }
+
+  if (!isPlainObject(merged) || !isPlainObject(override)) {
+    return merged;
+  }
+
+  return Object.fromEntries(
+    Object.entries(merged).map(([key, value]) => [
+      key,
+      Object.hasOwn(override, key)
+        ? replaceMergedArrays(value, override[key])
+        : value,
+    ]),
+  ) as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Looks up a variant in the registry, falling back to the built-in `info`
+ * definition for variants that have no definition.
+ */
+export function resolveVariant(
+  variants: StatusMessageThemeConfig["variants"],
+  variant: StatusMessageVariant,
+): StatusMessageVariantDefinition {
+  return variants[variant] ?? statusMessageVariants.info;
+}
+
+/**
+ * Resolves the accessible label of a variant, deriving one from the variant
+ * name for definitions without a `label`.
+ */
+export function resolveVariantLabel(
+  definition: StatusMessageVariantDefinition,
+  variant: StatusMessageVariant,
+): string {
+  if (definition.label !== undefined) {
+    return definition.label;
+  }
+
+  const words = variant.replace(/[-_]+/g, " ").trim();
+
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Resolves a variant icon to the frames to display. Static icons resolve to
+ * a single frame.
+ */
+export function resolveVariantFrames(
+  icon: StatusMessageIcon,
+  figures: StatusMessageFigures,
+  unicode: boolean,
+): readonly string[] {
+  if (typeof icon === "object") {
+    const glyph = unicode ? icon.unicode : icon.ascii;
+
+    return typeof glyph === "string" ? [glyph] : glyph;
+  }
+
+  return [String(figures[icon] ?? "")];
+}
+
+/**
+ * Default levels of the severities, least severe first.
+ */
+export const statusMessageSeverityLevels: Readonly<
+  Record<StatusMessageSeverity, number>
+> = {
+  debug: 10,
+  info: 20,
+  success: 30,
+  warning: 40,
+  error: 50,
+};
+
+/**
+ * Resolves the ordered severity level of a variant definition, falling back
+ * to the level of its semantic severity.
+ */
+export function resolveSeverityLevel(
+  definition: StatusMessageVariantDefinition,
+): number {
+  return definition.level ?? statusMessageSeverityLevels[definition.severity];
+}
+
+/**
+ * Resolves a severity threshold to a level.
+ */
+export function resolveSeverityThreshold(
+  threshold: StatusMessageSeverityThreshold,
+): number {
+  return typeof threshold === "number"
+    ? threshold
+    : statusMessageSeverityLevels[threshold];
+}
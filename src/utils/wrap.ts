@@ -0,0 +1,280 @@
+/**
+ * Utility functions for wrapping plain text to a terminal width.
+ *
+ * Mirrors the word wrapping tinky applies to `Text` so that formatted strings
+ * break where rendered components do. Widths are measured in terminal
+ * columns, so wide CJK characters and emoji count double.
+ */
+
+import { type MarkupSpan, type MarkupSpanType } from "./markup.js";
+import { measureGrapheme, splitGraphemes } from "./text-width.js";
+
+/**
+ * How the message of a status message wraps.
+ *
+ * - `hanging`: Wraps between words, continuation lines aligned under the
+ *   text rather than the icon
+ * - `truncate-end`: A single line, cut with an ellipsis at the end
+ * - `truncate-middle`: A single line, cut with an ellipsis in the middle
+ */
+export type StatusMessageWrap = "hanging" | "truncate-end" | "truncate-middle";
+
+/**
+ * Options for `layoutText`.
+ */
+export interface TextLayoutOptions {
+  /**
+   * Available width in columns.
+   */
+  width: number;
+
+  /**
+   * Wrapping mode.
+   *
+   * @default "hanging"
+   */
+  wrap?: StatusMessageWrap;
+
+  /**
+   * Maximum number of lines. The last visible line ends with the ellipsis
+   * when lines are cut.
+   */
+  maxLines?: number;
+
+  /**
+   * Marker of cut text.
+   *
+   * @default "…"
+   */
+  ellipsis?: string;
+
+  /**
+   * Columns of an emoji.
+   *
+   * @default 2
+   */
+  emojiWidth?: number;
+}
+
+interface Cell {
+  text: string;
+  type: MarkupSpanType;
+  width: number;
+}
+
+/**
+ * Wraps text to `width` columns.
+ *
+ * @param {string} text - The text to wrap; existing line breaks are kept
+ * @param {number} [width] - Maximum line width; text is not wrapped when omitted
+ * @param {number} [emojiWidth=2] - Columns of an emoji
+ * @returns {string[]} The wrapped lines
+ *
+ * Lines are broken between words. Words longer than `width` are split.
+ */
+export function wrapText(
+  text: string,
+  width?: number,
+  emojiWidth = 2,
+): string[] {
+  const lines = text.split("\n");
+
+  if (width === undefined || width <= 0) {
+    return lines;
+  }
+
+  return lines.flatMap((line) =>
+    wrapCells(toCells([{ type: "text", text: line }], emojiWidth), width).map(
+      joinCells,
+    ),
+  );
+}
+
+/**
+ * Lays out spans of text in `width` columns, wrapping or truncating them.
+ *
+ * @param {readonly MarkupSpan[]} spans - The text, e.g. from `parseMarkup`
+ * @param {TextLayoutOptions} options - Width, mode and line limit
+ * @returns {MarkupSpan[][]} The spans of each line
+ *
+ * @example
+ * ```typescript
+ * layoutText([{ type: "text", text: "Uploading build artifacts" }], {
+ *   width: 12,
+ *   wrap: "truncate-middle",
+ * });
+ * // [[{ type: "text", text: "Upload…facts" }]]
+ * ```
+ */
+export function layoutText(
+  spans: readonly MarkupSpan[],
+  options: TextLayoutOptions,
+): MarkupSpan[][] {
+  const { width, wrap = "hanging", maxLines, emojiWidth = 2 } = options;
+  const ellipsis = toCells(
+    [{ type: "text", text: options.ellipsis ?? "…" }],
+    emojiWidth,
+  );
+  const hardLines = splitLines(toCells(spans, emojiWidth));
+
+  if (wrap !== "hanging") {
+    const line = hardLines.flatMap((cells, index) =>
+      index === 0 ? cells : [spaceCell, ...cells],
+    );
+
+    return [
+      toSpans(
+        truncateCells(
+          line,
+          width,
+          wrap === "truncate-middle" ? "middle" : "end",
+          ellipsis,
+        ),
+      ),
+    ];
+  }
+
+  const lines = hardLines.flatMap((cells) => wrapCells(cells, width));
+
+  if (maxLines !== undefined && lines.length > maxLines) {
+    const visible = lines.slice(0, Math.max(1, maxLines));
+    const last = visible.length - 1;
+    visible[last] = truncateCells(visible[last], width, "end", ellipsis, true);
+
+    return visible.map(toSpans);
+  }
+
+  return lines.map(toSpans);
+}
+
+const spaceCell: Cell = { text: " ", type: "text", width: 1 };
+
+function toCells(spans: readonly MarkupSpan[], emojiWidth: number): Cell[] {
+  return spans.flatMap((span) =>
+    splitGraphemes(span.text).map((text) => ({
+      text,
+      type: span.type,
+      width: text === "\n" ? 0 : measureGrapheme(text, emojiWidth),
+    })),
+  );
+}
+
+function toSpans(cells: readonly Cell[]): MarkupSpan[] {
+  const spans: MarkupSpan[] = [];
+
+  for (const cell of cells) {
+    const previous = spans.at(-1);
+
+    if (previous?.type === cell.type) {
+      previous.text += cell.text;
+    } else {
+      spans.push({ type: cell.type, text: cell.text });
+    }
+  }
+
+  return spans;
+}
+
+function joinCells(cells: readonly Cell[]): string {
+  return cells.map((cell) => cell.text).join("");
+}
+
+function widthOf(cells: readonly Cell[]): number {
+  return cells.reduce((width, cell) => width + cell.width, 0);
+}
+
+function splitLines(cells: readonly Cell[]): Cell[][] {
+  const lines: Cell[][] = [[]];
+
+  for (const cell of cells) {
+    if (cell.text === "\n" || cell.text === "\r\n") {
+      lines.push([]);
+    } else {
+      lines[lines.length - 1].push(cell);
+    }
+  }
+
+  return lines;
+}
+
+function wrapCells(cells: readonly Cell[], width: number): Cell[][] {
+  const lines: Cell[][] = [];
+  let line: Cell[] = [];
+  let lineWidth = 0;
+
+  for (const cell of cells) {
+    if (lineWidth + cell.width > width) {
+      if (cell.text === " ") {
+        lines.push(line);
+        line = [];
+        lineWidth = 0;
+        continue;
+      }
+
+      const space = line.findLastIndex((previous) => previous.text === " ");
+      if (space >= 0) {
+        lines.push(line.slice(0, space));
+        line = line.slice(space + 1);
+      } else if (line.length > 0) {
+        lines.push(line);
+        line = [];
+      }
+
+      lineWidth = widthOf(line);
+      if (line.length > 0 && lineWidth + cell.width > width) {
+        lines.push(line);
+        line = [];
+        lineWidth = 0;
+      }
+    }
+
+    line.push(cell);
+    lineWidth += cell.width;
+  }
+
+  lines.push(line);
+
+  return lines;
+}
+
+function truncateCells(
+  cells: readonly Cell[],
+  width: number,
+  position: "end" | "middle",
+  ellipsis: readonly Cell[],
+  force = false,
+): Cell[] {
+  if (!force && widthOf(cells) <= width) {
+    return [...cells];
+  }
+
+  const budget = Math.max(0, width - widthOf(ellipsis));
+  const takeWithin = (source: readonly Cell[], available: number) => {
+    const taken: Cell[] = [];
+    let used = 0;
+
+    for (const cell of source) {
+      if (used + cell.width > available) {
+        break;
+      }
+      taken.push(cell);
+      used += cell.width;
+    }
+
+    return taken;
+  };
+
+  if (position === "end") {
+    const head = takeWithin(cells, budget);
+    while (head.at(-1)?.text === " ") {
+      head.pop();
+    }
+
+    return [...head, ...ellipsis];
+  }
+
+  const head = takeWithin(cells, Math.ceil(budget / 2));
+  const tail = takeWithin([...cells].reverse(), Math.floor(budget / 2));
+
+  return [...head, ...ellipsis, ...tail.reverse()];
+}
@@ -0,0 +1,161 @@
+/**
+ * Test suite for CI annotation output.
+ *
+ * Tests for CI detection from injected environments, annotation formatting
+ * and StatusMessage output inside StatusMessageOutputProvider.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { StrictMode } from "react";
+import { render } from "tinky-test";
+import {
+  detectCiAnnotationFormat,
+  formatCiAnnotation,
+  StatusMessage,
+  StatusMessageOutputProvider,
+} from "../src/index.js";
+
+describe("detectCiAnnotationFormat", () => {
+  const cases: [Record<string, string | undefined>, string | undefined][] = [
+    [{}, undefined],
+    [{ GITHUB_ACTIONS: "true", CI: "true" }, "github"],
+    [{ GITLAB_CI: "true" }, "plain"],
+    [{ CI: "true" }, "plain"],
+    [{ CI: "1" }, "plain"],
+    [{ CONTINUOUS_INTEGRATION: "yes" }, "plain"],
+    [{ CI: "false" }, undefined],
+    [{ CI: "0" }, undefined],
+  ];
+
+  for (const [env, expected] of cases) {
+    test(`${JSON.stringify(env)} → ${String(expected)}`, () => {
+      expect(detectCiAnnotationFormat(env)).toBe(expected);
+    });
+  }
+});
+
+describe("formatCiAnnotation", () => {
+  test("formats GitHub commands by severity", () => {
+    expect(
+      formatCiAnnotation({ severity: "error", message: "a" }, "github"),
+    ).toBe("::error::a");
+    expect(
+      formatCiAnnotation({ severity: "warning", message: "a" }, "github"),
+    ).toBe("::warning::a");
+    expect(
+      formatCiAnnotation({ severity: "info", message: "a" }, "github"),
+    ).toBe("::notice::a");
+    expect(
+      formatCiAnnotation({ severity: "success", message: "a" }, "github"),
+    ).toBe("::notice::a");
+    expect(
+      formatCiAnnotation({ severity: "debug", message: "a" }, "github"),
+    ).toBe("::debug::a");
+  });
+
+  test("adds GitHub location and title properties", () => {
+    expect(
+      formatCiAnnotation(
+        {
+          severity: "error",
+          title: "Type error",
+          message: "Missing semicolon",
+          file: "src/index.ts",
+          line: 3,
+          col: 7,
+        },
+        "github",
+      ),
+    ).toBe(
+      "::error file=src/index.ts,line=3,col=7,title=Type error::Missing semicolon",
+    );
+  });
+
+  test("escapes GitHub data and properties", () => {
+    expect(
+      formatCiAnnotation(
+        { severity: "error", title: "a:b,c", message: "100%\nnext" },
+        "github",
+      ),
+    ).toBe("::error title=a%3Ab%2Cc::100%25%0Anext");
+  });
+
+  test("formats plain compiler-style lines", () => {
+    expect(
+      formatCiAnnotation(
+        {
+          severity: "warning",
+          message: "Unused variable",
+          file: "src/a.ts",
+          line: 1,
+          col: 2,
+        },
+        "plain",
+      ),
+    ).toBe("src/a.ts:1:2: warning: Unused variable");
+    expect(
+      formatCiAnnotation({ severity: "info", message: "Done" }, "plain"),
+    ).toBe("info: Done");
+  });
+});
+
+describe("StatusMessageOutputProvider", () => {
+  test("writes annotations in an explicitly selected format", () => {
+    const { lastFrame } = render(
+      <StatusMessageOutputProvider mode="github">
+        <StatusMessage variant="error" file="src/index.ts" line={3}>
+          Missing semicolon
+        </StatusMessage>
+      </StatusMessageOutputProvider>,
+    );
+
+    expect(lastFrame()).toContain(
+      "::error file=src/index.ts,line=3::Missing semicolon",
+    );
+    expect(lastFrame()).not.toContain("✘");
+  });
+
+  test("writes each annotation once", () => {
+    const message = (
+      <StatusMessageOutputProvider mode="plain">
+        <StatusMessage variant="warning">Disk almost full</StatusMessage>
+      </StatusMessageOutputProvider>
+    );
+    const { rerender, frames } = render(<StrictMode>{message}</StrictMode>);
+    rerender(<StrictMode>{message}</StrictMode>);
+
+    const output = frames.join("");
+    expect(output.split("warning: Disk almost full")).toHaveLength(2);
+  });
+
+  test("detects CI from the injected env", () => {
+    const { lastFrame } = render(
+      <StatusMessageOutputProvider env={{ CI: "true" }}>
+        <StatusMessage variant="warning">Deprecated flag</StatusMessage>
+      </StatusMessageOutputProvider>,
+    );
+
+    expect(lastFrame()).toContain("warning: Deprecated flag");
+  });
+
+  test("renders interactively outside of CI", () => {
+    const { lastFrame } = render(
+      <StatusMessageOutputProvider env={{}}>
+        <StatusMessage variant="success">Deployed</StatusMessage>
+      </StatusMessageOutputProvider>,
+    );
+
+    expect(lastFrame()).toContain("✔");
+    expect(lastFrame()).toContain("Deployed");
+  });
+
+  test("renders interactively when selected", () => {
+    const { lastFrame } = render(
+      <StatusMessageOutputProvider mode="interactive" env={{ CI: "true" }}>
+        <StatusMessage variant="success">Deployed</StatusMessage>
+      </StatusMessageOutputProvider>,
+    );
+
+    expect(lastFrame()).toContain("✔");
+  });
+});
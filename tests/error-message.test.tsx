@@ -0,0 +1,183 @@
+/**
+ * Test suite for the ErrorMessage component.
+ *
+ * Tests for rendering thrown values with codes, cause chains, aggregated
+ * errors and collapsible, filtered stack traces.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { render } from "tinky-test";
+import {
+  describeError,
+  ErrorMessage,
+  StatusMessageOutputProvider,
+  StatusMessageSeverityProvider,
+} from "../src/index.js";
+
+function errorWithStack(message: string, frames: string[]): Error {
+  const error = new Error(message);
+  error.stack = [
+    `Error: ${message}`,
+    ...frames.map((frame) => `    at ${frame}`),
+  ].join("\n");
+
+  return error;
+}
+
+describe("ErrorMessage", () => {
+  test("renders the error message with the error icon", () => {
+    const { lastFrame } = render(
+      <ErrorMessage error={new Error("Connection refused")} />,
+    );
+
+    expect(lastFrame()).toContain("✘");
+    expect(lastFrame()).toContain("Connection refused");
+  });
+
+  test("prefixes the message with specific error names", () => {
+    const { lastFrame } = render(
+      <ErrorMessage error={new TypeError("x is not a function")} />,
+    );
+
+    expect(lastFrame()).toContain("TypeError: x is not a function");
+  });
+
+  test("renders the title and error code", () => {
+    const error = Object.assign(new Error("open config.json"), {
+      code: "ENOENT",
+    });
+    const { lastFrame } = render(
+      <ErrorMessage title="Build failed" error={error} />,
+    );
+
+    expect(lastFrame()).toContain("Build failed");
+    expect(lastFrame()).toContain("[ENOENT]");
+  });
+
+  test("renders the cause chain as nested entries", () => {
+    const root = new Error("socket hang up");
+    const middle = new Error("request failed", { cause: root });
+    const error = new Error("deploy failed", { cause: middle });
+    const { lastFrame } = render(<ErrorMessage error={error} />);
+
+    const lines = (lastFrame() ?? "").split("\n");
+    const middleLine =
+      lines.find((line) => line.includes("request failed")) ?? "";
+    const rootLine =
+      lines.find((line) => line.includes("socket hang up")) ?? "";
+
+    expect(middleLine).toContain("Caused by:");
+    expect(rootLine).toContain("Caused by:");
+    expect(rootLine.indexOf("Caused by:")).toBeGreaterThan(
+      middleLine.indexOf("Caused by:"),
+    );
+  });
+
+  test("renders aggregated errors as nested entries", () => {
+    const error = new AggregateError(
+      [new Error("lint failed"), new Error("tests failed")],
+      "2 checks failed",
+    );
+    const { lastFrame } = render(<ErrorMessage error={error} />);
+
+    expect(lastFrame()).toContain("AggregateError: 2 checks failed");
+    expect(lastFrame()).toContain("lint failed");
+    expect(lastFrame()).toContain("tests failed");
+  });
+
+  test("collapses the stack trace by default", () => {
+    const error = errorWithStack("boom", [
+      "build (/app/src/build.ts:10:5)",
+      "main (/app/src/index.ts:3:1)",
+    ]);
+    const { lastFrame } = render(<ErrorMessage error={error} />);
+
+    expect(lastFrame()).toContain("2 stack frames");
+    expect(lastFrame()).not.toContain("build.ts");
+  });
+
+  test("expands the stack trace without node_modules frames", () => {
+    const error = errorWithStack("boom", [
+      "build (/app/src/build.ts:10:5)",
+      "run (/app/node_modules/tool/index.js:1:1)",
+    ]);
+    const { lastFrame } = render(<ErrorMessage error={error} showStack />);
+
+    expect(lastFrame()).toContain("at build (/app/src/build.ts:10:5)");
+    expect(lastFrame()).not.toContain("node_modules");
+  });
+
+  test("renders values that are not errors", () => {
+    const { lastFrame } = render(<ErrorMessage error="plain failure" />);
+
+    expect(lastFrame()).toContain("plain failure");
+  });
+
+  test("indents the causes and stack under the message", () => {
+    const error = errorWithStack("boom", ["build (/app/src/build.ts:10:5)"]);
+    error.cause = new Error("disk full");
+    const { lastFrame } = render(<ErrorMessage error={error} />);
+
+    const [headline = "", cause = "", stack = ""] = (lastFrame() ?? "").split(
+      "\n",
+    );
+    const messageColumn = headline.indexOf("boom");
+
+    expect(cause.indexOf("Caused by:")).toBeGreaterThan(messageColumn);
+    expect(stack.indexOf("1 stack frame")).toBeGreaterThan(messageColumn);
+  });
+
+  test("hides the causes and stack along with a filtered message", () => {
+    const error = errorWithStack("disk almost full", ["check (/app/a.ts:1:1)"]);
+    error.cause = new Error("quota reached");
+    const { lastFrame } = render(
+      <StatusMessageSeverityProvider minSeverity="error">
+        <ErrorMessage variant="warning" error={error} />
+      </StatusMessageSeverityProvider>,
+    );
+
+    expect(lastFrame()).toBe("");
+  });
+
+  test("writes the causes and stack into the CI annotation", () => {
+    const error = errorWithStack("deploy failed", ["run (/app/a.ts:1:1)"]);
+    error.cause = new Error("socket hang up");
+    const { lastFrame } = render(
+      <StatusMessageOutputProvider mode="plain">
+        <ErrorMessage title="Deploy" error={error} />
+      </StatusMessageOutputProvider>,
+    );
+
+    expect((lastFrame() ?? "").trimEnd()).toBe(
+      [
+        "error: Deploy: deploy failed",
+        "Caused by: socket hang up",
+        "1 stack frame",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("describeError", () => {
+  test("stops at cyclic causes", () => {
+    const error = new Error("outer");
+    const inner = new Error("inner", { cause: error });
+    error.cause = inner;
+
+    const description = describeError(error);
+
+    expect(description.cause?.message).toBe("inner");
+    expect(description.cause?.cause).toBeUndefined();
+  });
+
+  test("accepts a custom stack filter", () => {
+    const error = errorWithStack("boom", [
+      "a (/app/node_modules/x.js:1:1)",
+      "b (/app/src/b.ts:1:1)",
+    ]);
+
+    const description = describeError(error, { stackFilter: () => true });
+
+    expect(description.frames).toHaveLength(2);
+  });
+});
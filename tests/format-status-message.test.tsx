@@ -0,0 +1,219 @@
+/**
+ * Test suite for formatStatusMessage.
+ *
+ * Shared tests rendering the same messages with StatusMessage and with
+ * formatStatusMessage, plus tests for the formatting options.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { Box } from "tinky";
+import { render } from "tinky-test";
+import { ThemeProvider } from "tinky-theme";
+import {
+  type FormatStatusMessageOptions,
+  formatStatusMessage,
+  StatusMessage,
+  type StatusMessageFormatInput,
+  StatusMessageOutputProvider,
+  TerminalCapabilitiesProvider,
+} from "../src/index.js";
+import { wrapText } from "../src/utils/wrap.js";
+
+/**
+ * Options pinning the detected capabilities, so that `NO_COLOR` or `TERM` in
+ * the environment running the tests doesn't change the output.
+ */
+const options = { color: false, unicode: true, accessible: false, env: {} };
+
+/**
+ * Removes the space tinky leaves at the end of a line it wraps at. Like the
+ * rest of the line end, it isn't part of the formatted text.
+ */
+function trimLineEnds(text: string): string {
+  return text.replace(/ +$/gm, "");
+}
+
+/**
+ * Removes ANSI styles, which tinky-test strips from rendered frames, so that
+ * colored output is compared by its layout.
+ */
+function stripStyles(text: string): string {
+  // eslint-disable-next-line no-control-regex
+  return text.replace(/\u001B\[[0-9;]*m/g, "");
+}
+
+const cases: [
+  string,
+  StatusMessageFormatInput,
+  Pick<FormatStatusMessageOptions, "color" | "width" | "theme">?,
+][] = [
+  ["message only", { variant: "success", message: "Deployed" }],
+  ["warning", { variant: "warning", message: "Disk almost full" }],
+  [
+    "title and message",
+    { variant: "error", title: "Build failed", message: "2 type errors" },
+  ],
+  [
+    "message and details",
+    {
+      variant: "info",
+      message: "Update available",
+      details: "npm install -g my-cli",
+    },
+  ],
+  [
+    "title, message and details",
+    {
+      variant: "tip",
+      title: "Tip",
+      message: "Use --watch to rebuild",
+      details: "Works with every command",
+    },
+  ],
+  ["debug", { variant: "debug", message: "Cache hit" }],
+  [
+    "wrapped to a width",
+    {
+      variant: "info",
+      message: "Update available for every package",
+      details: "npm install -g my-cli",
+    },
+    { width: 20 },
+  ],
+  [
+    "wrapped after a narrow icon",
+    { variant: "error", title: "Build failed", message: "2 type errors" },
+    { width: 12 },
+  ],
+  [
+    "colored",
+    { variant: "warning", title: "Disk", message: "Almost full" },
+    { color: true },
+  ],
+  [
+    "colored and wrapped",
+    {
+      variant: "success",
+      message: "Deployed to production",
+      details: "in 2s",
+    },
+    { color: true, width: 16 },
+  ],
+  [
+    "a figure outside the built-in variants",
+    { variant: "tip", message: "Press play" },
+    { theme: { config: { variants: { tip: { icon: "play" } } } } },
+  ],
+];
+
+describe("formatStatusMessage", () => {
+  describe("matches StatusMessage rendering", () => {
+    for (const [name, input, caseOptions = {}] of cases) {
+      test(name, () => {
+        const { width, theme } = caseOptions;
+        const { lastFrame } = render(
+          <ThemeProvider theme={{ components: { StatusMessage: theme ?? {} } }}>
+            <TerminalCapabilitiesProvider capabilities={{ unicode: true }}>
+              <StatusMessageOutputProvider
+                mode="interactive"
+                accessible={false}
+              >
+                <Box width={width}>
+                  <StatusMessage
+                    variant={input.variant}
+                    title={input.title}
+                    details={input.details}
+                  >
+                    {input.message}
+                  </StatusMessage>
+                </Box>
+              </StatusMessageOutputProvider>
+            </TerminalCapabilitiesProvider>
+          </ThemeProvider>,
+        );
+
+        expect(
+          stripStyles(
+            formatStatusMessage(input, { ...options, ...caseOptions }),
+          ),
+        ).toBe(trimLineEnds(lastFrame() ?? ""));
+      });
+    }
+  });
+
+  test("uses ASCII figures without unicode support", () => {
+    const output = formatStatusMessage(
+      { variant: "success", message: "Deployed" },
+      { ...options, unicode: false },
+    );
+
+    expect(output).toBe("√ Deployed");
+  });
+
+  test("detects unicode support from env and platform", () => {
+    const output = formatStatusMessage(
+      { variant: "success", message: "Deployed" },
+      { color: false, accessible: false, env: {}, platform: "win32" },
+    );
+
+    expect(output).toBe("√ Deployed");
+  });
+
+  test("aligns continuation lines with the content column", () => {
+    const output = formatStatusMessage(
+      {
+        variant: "error",
+        title: "Build failed",
+        message: "2 type errors",
+        details: "Run tsc",
+      },
+      options,
+    );
+
+    expect(output).toBe("✘ Build failed\n  2 type errors\n    Run tsc");
+  });
+
+  test("wraps to the target width", () => {
+    const output = formatStatusMessage(
+      { variant: "info", message: "one two three four" },
+      { ...options, width: 11 },
+    );
+
+    expect(output).toBe("ℹ  one two\n   three\n   four");
+  });
+
+  test("renders plain text without color", () => {
+    const output = formatStatusMessage(
+      { variant: "error", message: "Failed" },
+      options,
+    );
+
+    expect(output).not.toContain("\u001B[");
+  });
+
+  test("applies theme overrides", () => {
+    const output = formatStatusMessage(
+      { variant: "info", message: "Spaced" },
+      {
+        ...options,
+        theme: { styles: { container: () => ({ columnGap: 3 }) } },
+      },
+    );
+
+    expect(output).toBe("ℹ    Spaced");
+  });
+});
+
+describe("wrapText", () => {
+  test("keeps text without a width", () => {
+    expect(wrapText("a b\nc")).toEqual(["a b", "c"]);
+  });
+
+  test("breaks between words", () => {
+    expect(wrapText("aa bb cc", 5)).toEqual(["aa bb", "cc"]);
+  });
+
+  test("splits words longer than the width", () => {
+    expect(wrapText("abcdefg", 3)).toEqual(["abc", "def", "g"]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Test suite for the inline markup parser.
+ *
+ * Tests for parseMarkup and stripMarkup, covering each span type, literal
+ * fallbacks for unbalanced or unknown markup, and word boundaries.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { parseMarkup, stripMarkup } from "../src/index.js";
+
+describe("parseMarkup", () => {
+  test("returns plain text as a single span", () => {
+    expect(parseMarkup("Build finished")).toEqual([
+      { type: "text", text: "Build finished" },
+    ]);
+  });
+
+  test("returns no spans for an empty string", () => {
+    expect(parseMarkup("")).toEqual([]);
+  });
+
+  test.each([
+    ["**bold**", "emphasis", "bold"],
+    ["`npm test`", "code", "npm test"],
+    ["_optional_", "dim", "optional"],
+  ] as const)("parses %s", (input, type, text) => {
+    expect(parseMarkup(input)).toEqual([{ type, text }]);
+  });
+
+  test("keeps the text around spans", () => {
+    expect(parseMarkup("Run `npm test` **now**")).toEqual([
+      { type: "text", text: "Run " },
+      { type: "code", text: "npm test" },
+      { type: "text", text: " " },
+      { type: "emphasis", text: "now" },
+    ]);
+  });
+
+  test.each([
+    "**unclosed",
+    "unopened**",
+    "`half",
+    "_half",
+    "****",
+    "``",
+    "a * b * c",
+    "2 ** 10 is **1024",
+    "** spaced **",
+  ])("renders unbalanced markup %s literally", (input) => {
+    expect(parseMarkup(input)).toEqual([{ type: "text", text: input }]);
+  });
+
+  test("renders unknown markup literally", () => {
+    expect(parseMarkup("~~struck~~ and <b>tag</b>")).toEqual([
+      { type: "text", text: "~~struck~~ and <b>tag</b>" },
+    ]);
+  });
+
+  test("keeps underscores inside words", () => {
+    expect(parseMarkup("Set MAX_RETRY_COUNT in snake_case_file")).toEqual([
+      { type: "text", text: "Set MAX_RETRY_COUNT in snake_case_file" },
+    ]);
+  });
+
+  test("does not parse markup inside code", () => {
+    expect(parseMarkup("`**not bold**`")).toEqual([
+      { type: "code", text: "**not bold**" },
+    ]);
+  });
+
+  test("keeps a closing delimiter that has no opening one literal", () => {
+    expect(parseMarkup("**a** b**")).toEqual([
+      { type: "emphasis", text: "a" },
+      { type: "text", text: " b**" },
+    ]);
+  });
+});
+
+describe("stripMarkup", () => {
+  test("removes delimiters and keeps the span text", () => {
+    expect(stripMarkup("Edit **config** in `app.json` _later_")).toBe(
+      "Edit config in app.json later",
+    );
+  });
+
+  test("keeps unbalanced markup", () => {
+    expect(stripMarkup("2 ** 3")).toBe("2 ** 3");
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Test suite for the status logger bridge.
+ *
+ * Tests for createStatusLogger, covering level mapping, aligned field
+ * details, the JSON-line stream and the StatusMessageProvider connection.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { render } from "tinky-test";
+import {
+  createStatusLogger,
+  formatLogFields,
+  StatusMessageList,
+  StatusMessageProvider,
+  type StatusMessageInput,
+} from "../src/index.js";
+
+/**
+ * Waits until no frame has been rendered for a while, so that logged records
+ * are rendered.
+ */
+async function settle(frames: readonly string[]) {
+  let count;
+  do {
+    count = frames.length;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  } while (frames.length !== count);
+}
+
+function connectLogger(options?: Parameters<typeof createStatusLogger>[0]) {
+  const logger = createStatusLogger(options);
+  const messages: StatusMessageInput[] = [];
+  logger.connect((message) => {
+    messages.push(message);
+    return String(messages.length);
+  });
+
+  return { logger, messages };
+}
+
+describe("createStatusLogger", () => {
+  test.each([
+    ["trace", "debug"],
+    ["debug", "debug"],
+    ["info", "info"],
+    ["warn", "warning"],
+    ["error", "error"],
+    ["fatal", "error"],
+  ] as const)("maps %s records onto %s", (level, variant) => {
+    const { logger, messages } = connectLogger();
+
+    logger[level]("Message");
+
+    expect(messages[0]?.variant).toBe(variant);
+  });
+
+  test("uses the configured level table", () => {
+    const { logger, messages } = connectLogger({
+      levels: { fatal: "pending", notice: "tip" },
+    });
+
+    logger.fatal("Shutting down");
+    logger.log({ level: "notice", message: "New version available" });
+    logger.log({ level: "verbose", message: "Unknown level" });
+    logger.log({ level: "constructor", message: "Inherited name" });
+
+    expect(messages.map((message) => message.variant)).toEqual([
+      "pending",
+      "tip",
+      "info",
+      "info",
+    ]);
+  });
+
+  test("renders fields as aligned details", () => {
+    const { logger, messages } = connectLogger();
+
+    logger.warn("Retrying connection", { attempt: 2, host: "db-1" });
+
+    expect(messages[0]?.message).toBe("Retrying connection");
+    expect(messages[0]?.details).toBe("attempt  2\nhost     db-1");
+  });
+
+  test("queues records until connected", () => {
+    const logger = createStatusLogger();
+    logger.info("Early");
+
+    const messages: StatusMessageInput[] = [];
+    logger.connect((message) => {
+      messages.push(message);
+      return "1";
+    });
+
+    expect(messages[0]?.message).toBe("Early");
+  });
+
+  test("keeps the last maxPending records until connected", () => {
+    const logger = createStatusLogger({ maxPending: 2 });
+    logger.info("First");
+    logger.info("Second");
+    logger.info("Third");
+
+    const messages: StatusMessageInput[] = [];
+    logger.connect((message) => {
+      messages.push(message);
+      return String(messages.length);
+    });
+
+    expect(messages.map((message) => message.message)).toEqual([
+      "Second",
+      "Third",
+    ]);
+  });
+
+  test("stops pushing once disconnected", () => {
+    const logger = createStatusLogger();
+    const messages: StatusMessageInput[] = [];
+    const disconnect = logger.connect((message) => {
+      messages.push(message);
+      return "1";
+    });
+
+    disconnect();
+    logger.info("Later");
+
+    expect(messages).toHaveLength(0);
+  });
+});
+
+describe("StatusLogger stream", () => {
+  test("parses JSON lines with numeric levels", () => {
+    const { logger, messages } = connectLogger();
+
+    logger.stream.write(
+      `${JSON.stringify({
+        level: 40,
+        time: 1_700_000_000_000,
+        pid: 42,
+        hostname: "ci",
+        msg: "Disk almost full",
+        free: "2GB",
+      })}\n`,
+    );
+
+    expect(messages[0]).toMatchObject({
+      variant: "warning",
+      message: "Disk almost full",
+      details: "free  2GB",
+    });
+    expect(new Date(messages[0]?.timestamp ?? 0).getTime()).toBe(
+      1_700_000_000_000,
+    );
+  });
+
+  test("joins lines split across chunks", () => {
+    const { logger, messages } = connectLogger();
+
+    logger.stream.write('{"level":"error","msg":"Con');
+    expect(messages).toHaveLength(0);
+
+    logger.stream.write('nection lost"}\n{"level":"info","msg":"Retrying"}');
+    logger.stream.end();
+
+    expect(messages.map((message) => message.message)).toEqual([
+      "Connection lost",
+      "Retrying",
+    ]);
+  });
+
+  test("decodes byte chunks", () => {
+    const { logger, messages } = connectLogger();
+
+    logger.stream.write(
+      new TextEncoder().encode('{"level":"info","msg":"Ready ✔"}\n'),
+    );
+
+    expect(messages[0]?.message).toBe("Ready ✔");
+  });
+
+  test("renders lines that are not JSON as info messages", () => {
+    const { logger, messages } = connectLogger();
+
+    logger.stream.write("plain text\n");
+
+    expect(messages[0]).toMatchObject({
+      variant: "info",
+      message: "plain text",
+    });
+  });
+});
+
+describe("StatusMessageProvider logger", () => {
+  test("renders logged records in the list", async () => {
+    const logger = createStatusLogger();
+    const { lastFrame, frames } = render(
+      <StatusMessageProvider logger={logger}>
+        <StatusMessageList />
+      </StatusMessageProvider>,
+    );
+
+    logger.error("Build failed", { exitCode: 2, target: "web" });
+    await settle(frames);
+
+    const output = lastFrame();
+    expect(output).toContain("✘");
+    expect(output).toContain("Build failed");
+    expect(output).toContain("exitCode  2");
+    expect(output).toContain("target    web");
+  });
+});
+
+describe("formatLogFields", () => {
+  test("formats values as JSON except strings and errors", () => {
+    expect(
+      formatLogFields({
+        ok: true,
+        tags: ["a", "b"],
+        err: new Error("boom"),
+        skipped: undefined,
+      }),
+    ).toBe('ok    true\ntags  ["a","b"]\nerr   boom');
+  });
+
+  test("formats values JSON can't represent with String", () => {
+    const circular: Record<string, unknown> = { name: "loop" };
+    circular.self = circular;
+
+    expect(formatLogFields({ size: 10n, circular })).toBe(
+      "size      10\ncircular  [object Object]",
+    );
+  });
+
+  test("returns undefined without fields", () => {
+    expect(formatLogFields({})).toBeUndefined();
+  });
+});
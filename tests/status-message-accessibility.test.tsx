@@ -0,0 +1,140 @@
+/**
+ * Test suite for accessible status message rendering.
+ *
+ * Tests for accessible mode detection from injected environments, text
+ * labels replacing icons inside StatusMessageOutputProvider, and label
+ * overrides through the theme.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { render } from "tinky-test";
+import { ThemeProvider } from "tinky-theme";
+import {
+  detectAccessibleMode,
+  formatStatusMessage,
+  StatusMessage,
+  StatusMessageOutputProvider,
+} from "../src/index.js";
+
+declare module "../src/index.js" {
+  interface StatusMessageVariantRegistry {
+    "build-step": true;
+  }
+}
+
+describe("detectAccessibleMode", () => {
+  const cases: [Record<string, string | undefined>, boolean][] = [
+    [{}, false],
+    [{ NO_COLOR: "1" }, true],
+    [{ NO_COLOR: "" }, false],
+    [{ TERM: "dumb" }, true],
+    [{ TERM: "xterm-256color" }, false],
+  ];
+
+  for (const [env, expected] of cases) {
+    test(`${JSON.stringify(env)} → ${String(expected)}`, () => {
+      expect(detectAccessibleMode(env)).toBe(expected);
+    });
+  }
+});
+
+describe("StatusMessage accessible mode", () => {
+  test("renders the variant label instead of the icon", () => {
+    const { lastFrame } = render(
+      <StatusMessageOutputProvider mode="interactive" accessible>
+        <StatusMessage variant="error">Build failed</StatusMessage>
+      </StatusMessageOutputProvider>,
+    );
+
+    expect(lastFrame()).toBe("Error: Build failed");
+  });
+
+  test("renders a static label for the pending variant", () => {
+    const { lastFrame } = render(
+      <StatusMessageOutputProvider mode="interactive" accessible>
+        <StatusMessage variant="pending">Installing</StatusMessage>
+      </StatusMessageOutputProvider>,
+    );
+
+    expect(lastFrame()).toBe("Pending: Installing");
+  });
+
+  test("keeps the icon when accessible mode is turned off", () => {
+    const { lastFrame } = render(
+      <StatusMessageOutputProvider mode="interactive" accessible={false}>
+        <StatusMessage variant="success">Done</StatusMessage>
+      </StatusMessageOutputProvider>,
+    );
+
+    expect(lastFrame()).not.toContain("Success:");
+    expect(lastFrame()).toContain("Done");
+  });
+
+  test("uses labels from the theme", () => {
+    const { lastFrame } = render(
+      <ThemeProvider
+        theme={{
+          components: {
+            StatusMessage: {
+              config: { variants: { warning: { label: "Avertissement" } } },
+            },
+          },
+        }}
+      >
+        <StatusMessageOutputProvider mode="interactive" accessible>
+          <StatusMessage variant="warning">Disque presque plein</StatusMessage>
+        </StatusMessageOutputProvider>
+      </ThemeProvider>,
+    );
+
+    expect(lastFrame()).toBe("Avertissement: Disque presque plein");
+  });
+
+  test("derives the label of custom variants from their name", () => {
+    const { lastFrame } = render(
+      <ThemeProvider
+        theme={{
+          components: {
+            StatusMessage: {
+              config: {
+                variants: {
+                  "build-step": {
+                    color: "cyan",
+                    icon: "play",
+                    severity: "info",
+                  },
+                },
+              },
+            },
+          },
+        }}
+      >
+        <StatusMessageOutputProvider mode="interactive" accessible>
+          <StatusMessage variant="build-step">Compiling</StatusMessage>
+        </StatusMessageOutputProvider>
+      </ThemeProvider>,
+    );
+
+    expect(lastFrame()).toBe("Build step: Compiling");
+  });
+});
+
+describe("formatStatusMessage accessible option", () => {
+  test("prefixes the variant label", () => {
+    expect(
+      formatStatusMessage(
+        { variant: "info", message: "Cache warmed" },
+        { color: false, accessible: true },
+      ),
+    ).toBe("Info: Cache warmed");
+  });
+
+  test("detects accessible mode from env", () => {
+    expect(
+      formatStatusMessage(
+        { variant: "tip", message: "Try --watch" },
+        { color: false, env: { NO_COLOR: "1" } },
+      ),
+    ).toBe("Tip: Try --watch");
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Test suite for StatusMessage keyboard actions.
+ *
+ * Tests for key hint rendering, key matching and keypress handling, and
+ * focus management between several actionable messages.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { render } from "tinky-test";
+import { type Key } from "tinky";
+import {
+  StatusMessage,
+  TerminalCapabilitiesProvider,
+  type StatusMessageAction,
+} from "../src/index.js";
+import { formatActionKey, matchesActionKey } from "../src/utils/action-keys.js";
+
+/**
+ * Waits until no frame has been rendered for a while, so that focus changes
+ * are applied before the next keypress.
+ */
+async function settle(frames: readonly string[]) {
+  let count;
+  do {
+    count = frames.length;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  } while (frames.length !== count);
+}
+
+function recordActions(...keys: string[]) {
+  const calls: string[] = [];
+  const actions: StatusMessageAction[] = keys.map((key) => ({
+    key,
+    label: `${key} label`,
+    onAction: () => calls.push(key),
+  }));
+
+  return { actions, calls };
+}
+
+const noKey = { ctrl: false, meta: false } as Key;
+
+describe("action keys", () => {
+  test("matches characters and named keys", () => {
+    expect(matchesActionKey("r", "r", noKey)).toBe(true);
+    expect(matchesActionKey("r", "R", noKey)).toBe(false);
+    expect(matchesActionKey("r", "r", { ...noKey, ctrl: true })).toBe(false);
+    expect(matchesActionKey("esc", "", { ...noKey, escape: true })).toBe(true);
+    expect(matchesActionKey("enter", "\r", { ...noKey, return: true })).toBe(
+      true,
+    );
+    expect(matchesActionKey("space", " ", noKey)).toBe(true);
+  });
+
+  test("formats named keys for hints", () => {
+    expect(formatActionKey("escape")).toBe("esc");
+    expect(formatActionKey("return")).toBe("enter");
+    expect(formatActionKey("r")).toBe("r");
+  });
+});
+
+describe("StatusMessage actions", () => {
+  test("renders key hints after the message", () => {
+    const { actions } = recordActions("r", "escape");
+    const { lastFrame } = render(
+      <TerminalCapabilitiesProvider capabilities={{ unicode: true }}>
+        <StatusMessage variant="error" actions={actions}>
+          Push rejected
+        </StatusMessage>
+      </TerminalCapabilitiesProvider>,
+    );
+
+    expect(lastFrame()).toBe(
+      "✘ Push rejected\n  [r] r label  [esc] escape label",
+    );
+  });
+
+  test("calls the action matching a keypress", async () => {
+    const { actions, calls } = recordActions("r", "d", "escape");
+    const { stdin, frames } = render(
+      <StatusMessage variant="error" actions={actions}>
+        Push rejected
+      </StatusMessage>,
+    );
+
+    await settle(frames);
+    stdin.write("d");
+    await settle(frames);
+    stdin.write("\u001B");
+    await settle(frames);
+    stdin.write("x");
+    await settle(frames);
+
+    expect(calls).toEqual(["d", "escape"]);
+  });
+
+  test("handles keys only in the focused message", async () => {
+    const first = recordActions("r");
+    const second = recordActions("r");
+    const { stdin, frames } = render(
+      <>
+        <StatusMessage variant="error" actions={first.actions}>
+          First
+        </StatusMessage>
+        <StatusMessage variant="error" actions={second.actions}>
+          Second
+        </StatusMessage>
+      </>,
+    );
+
+    await settle(frames);
+    stdin.write("r");
+    await settle(frames);
+
+    expect(first.calls).toEqual(["r"]);
+    expect(second.calls).toEqual([]);
+
+    stdin.write("\t");
+    await settle(frames);
+    stdin.write("r");
+    await settle(frames);
+
+    expect(first.calls).toEqual(["r"]);
+    expect(second.calls).toEqual(["r"]);
+  });
+});
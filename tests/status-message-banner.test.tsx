@@ -0,0 +1,118 @@
+/**
+ * Test suite for the StatusMessage banner layout.
+ *
+ * Tests for the bordered box, the header row holding the icon and title,
+ * the ASCII border fallback, the borderless accessible mode and per-variant
+ * layout defaults from the theme.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { render } from "tinky-test";
+import { ThemeProvider } from "tinky-theme";
+import {
+  StatusMessage,
+  StatusMessageOutputProvider,
+  TerminalCapabilitiesProvider,
+} from "../src/index.js";
+
+const lines = (frame: string | undefined): string[] =>
+  (frame ?? "").split("\n");
+
+describe("StatusMessage banner layout", () => {
+  test("draws a rounded border around the message", () => {
+    const { lastFrame } = render(
+      <TerminalCapabilitiesProvider capabilities={{ unicode: true }}>
+        <StatusMessage
+          variant="warning"
+          layout="banner"
+          title="Breaking change"
+        >
+          The config format changed
+        </StatusMessage>
+      </TerminalCapabilitiesProvider>,
+    );
+
+    const [top, header, body, bottom] = lines(lastFrame());
+
+    expect(top?.startsWith("╭")).toBe(true);
+    expect(top?.endsWith("╮")).toBe(true);
+    expect(header).toMatch(/^│ ⚠ +Breaking change +│$/);
+    expect(body).toMatch(/^│ The config format changed +│$/);
+    expect(bottom?.startsWith("╰")).toBe(true);
+  });
+
+  test("spans the full width", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="info" layout="banner">
+        Short
+      </StatusMessage>,
+    );
+
+    const widths = new Set(lines(lastFrame()).map((line) => line.length));
+
+    expect(widths.size).toBe(1);
+    expect([...widths][0]).toBeGreaterThan("│ ℹ │".length + "Short".length);
+  });
+
+  test("falls back to an ASCII border without unicode support", () => {
+    const { lastFrame } = render(
+      <TerminalCapabilitiesProvider capabilities={{ unicode: false }}>
+        <StatusMessage variant="error" layout="banner" title="Fatal">
+          Out of memory
+        </StatusMessage>
+      </TerminalCapabilitiesProvider>,
+    );
+
+    const rendered = lines(lastFrame());
+
+    expect(rendered[0]).toMatch(/^\+-+\+$/);
+    expect(rendered[1]).toMatch(/^\| × Fatal +\|$/);
+    expect(rendered[rendered.length - 1]).toMatch(/^\+-+\+$/);
+  });
+
+  test("drops the border in accessible mode", () => {
+    const { lastFrame } = render(
+      <TerminalCapabilitiesProvider capabilities={{ unicode: true }}>
+        <StatusMessageOutputProvider mode="interactive" accessible>
+          <StatusMessage
+            variant="warning"
+            layout="banner"
+            title="Breaking change"
+          >
+            The config format changed
+          </StatusMessage>
+        </StatusMessageOutputProvider>
+      </TerminalCapabilitiesProvider>,
+    );
+
+    expect(lastFrame()).toBe(
+      "Warning: Breaking change\nThe config format changed",
+    );
+  });
+
+  test("uses the variant layout from the theme", () => {
+    const theme = {
+      components: {
+        StatusMessage: {
+          config: { variants: { error: { layout: "banner" as const } } },
+        },
+      },
+    };
+
+    const { lastFrame } = render(
+      <ThemeProvider theme={theme}>
+        <TerminalCapabilitiesProvider capabilities={{ unicode: true }}>
+          <StatusMessage variant="error">Failed</StatusMessage>
+          <StatusMessage variant="error" layout="inline">
+            Inline
+          </StatusMessage>
+        </TerminalCapabilitiesProvider>
+      </ThemeProvider>,
+    );
+
+    const rendered = lines(lastFrame());
+
+    expect(rendered[0]?.startsWith("╭")).toBe(true);
+    expect(rendered[rendered.length - 1]).toBe("✘ Inline");
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Test suite for collapsible StatusMessage details.
+ *
+ * Tests for the collapsed summary line, its figures in accessible mode,
+ * toggling with the keyboard, controlled `expanded`/`onToggle` usage and
+ * `maxDetailsLines`.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { render } from "tinky-test";
+import {
+  StatusMessage,
+  StatusMessageOutputProvider,
+  TerminalCapabilitiesProvider,
+} from "../src/index.js";
+
+/**
+ * Waits until no frame has been rendered for a while, so that focus changes
+ * are applied before the next keypress.
+ */
+async function settle(frames: readonly string[]) {
+  let count;
+  do {
+    count = frames.length;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  } while (frames.length !== count);
+}
+
+const diagnostics = ["line 1", "line 2", "line 3", "line 4", "line 5"].join(
+  "\n",
+);
+
+describe("StatusMessage collapsible details", () => {
+  test("collapses details behind a summary line", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="error" details={diagnostics} collapsible>
+        Build failed
+      </StatusMessage>,
+    );
+
+    expect(lastFrame()).toContain("5 more lines");
+    expect(lastFrame()).toContain("[space] expand");
+    expect(lastFrame()).not.toContain("line 1");
+  });
+
+  test("uses ASCII summary figures without unicode support", () => {
+    const { lastFrame } = render(
+      <TerminalCapabilitiesProvider capabilities={{ unicode: false }}>
+        <StatusMessage
+          variant="error"
+          details={diagnostics}
+          collapsible
+          expanded
+          maxDetailsLines={2}
+        >
+          Build failed
+        </StatusMessage>
+      </TerminalCapabilitiesProvider>,
+    );
+
+    expect(lastFrame()).toContain("v 5 lines");
+    expect(lastFrame()).toContain("... 3 more lines");
+    expect(lastFrame()).not.toMatch(/[▾…]/);
+  });
+
+  test("leaves the summary figures out in accessible mode", () => {
+    const { lastFrame } = render(
+      <TerminalCapabilitiesProvider capabilities={{ unicode: true }}>
+        <StatusMessageOutputProvider mode="interactive" accessible>
+          <StatusMessage
+            variant="error"
+            details={diagnostics}
+            collapsible
+            expanded
+            maxDetailsLines={2}
+          >
+            Build failed
+          </StatusMessage>
+        </StatusMessageOutputProvider>
+      </TerminalCapabilitiesProvider>,
+    );
+
+    expect(lastFrame()).toContain("  5 lines");
+    expect(lastFrame()).toContain("  3 more lines");
+    expect(lastFrame()).not.toMatch(/[▸▾…]/);
+  });
+
+  test("expands and collapses with the toggle key", async () => {
+    const { lastFrame, stdin, frames } = render(
+      <StatusMessage variant="error" details={diagnostics} collapsible>
+        Build failed
+      </StatusMessage>,
+    );
+
+    await settle(frames);
+    stdin.write(" ");
+    await settle(frames);
+
+    expect(lastFrame()).toContain("5 lines");
+    expect(lastFrame()).toContain("line 5");
+    expect(lastFrame()).toContain("[space] collapse");
+
+    stdin.write(" ");
+    await settle(frames);
+
+    expect(lastFrame()).not.toContain("line 5");
+  });
+
+  test("reports toggles without changing controlled state", async () => {
+    const toggles: boolean[] = [];
+    const { lastFrame, stdin, frames } = render(
+      <StatusMessage
+        variant="info"
+        details={diagnostics}
+        collapsible
+        expanded={false}
+        onToggle={(expanded) => toggles.push(expanded)}
+        toggleKey="e"
+      >
+        Response received
+      </StatusMessage>,
+    );
+
+    await settle(frames);
+    stdin.write("e");
+    await settle(frames);
+
+    expect(toggles).toEqual([true]);
+    expect(lastFrame()).toContain("[e] expand");
+    expect(lastFrame()).not.toContain("line 1");
+  });
+
+  test("limits the visible lines when expanded", () => {
+    const { lastFrame } = render(
+      <StatusMessage
+        variant="error"
+        details={diagnostics}
+        collapsible
+        expanded
+        maxDetailsLines={2}
+      >
+        Build failed
+      </StatusMessage>,
+    );
+
+    expect(lastFrame()).toContain("line 2");
+    expect(lastFrame()).not.toContain("line 3");
+    expect(lastFrame()).toContain("3 more lines");
+  });
+
+  test("renders details in full when not collapsible", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="error" details={diagnostics}>
+        Build failed
+      </StatusMessage>,
+    );
+
+    expect(lastFrame()).toContain("line 5");
+    expect(lastFrame()).not.toContain("more lines");
+  });
+});
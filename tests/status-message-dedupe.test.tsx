@@ -0,0 +1,210 @@
+/**
+ * Test suite for StatusMessage deduplication.
+ *
+ * Tests for collapsing repeated messages in StatusMessageProvider and
+ * StatusMessageGroup, covering counters, custom keys, time windows and
+ * last-seen times.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { render } from "tinky-test";
+import {
+  ErrorMessage,
+  StatusMessage,
+  StatusMessageGroup,
+  StatusMessageList,
+  StatusMessageProvider,
+  useStatusMessages,
+  type StatusMessageDedupePolicy,
+  type StatusMessageListProps,
+  type StatusMessagesContextValue,
+} from "../src/index.js";
+
+/**
+ * Returns an error without stack frames, so that only its message renders.
+ */
+function errorWithoutStack(message: string): Error {
+  return Object.assign(new Error(message), { stack: undefined });
+}
+
+/**
+ * Waits until no frame has been rendered for a while, so that pushed
+ * messages are rendered.
+ */
+async function settle(frames: readonly string[]) {
+  let count;
+  do {
+    count = frames.length;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  } while (frames.length !== count);
+}
+
+function renderQueue(
+  dedupe: boolean | StatusMessageDedupePolicy,
+  props: StatusMessageListProps = {},
+) {
+  const queue: { current?: StatusMessagesContextValue } = {};
+
+  function Capture() {
+    queue.current = useStatusMessages();
+    return null;
+  }
+
+  const result = render(
+    <StatusMessageProvider dedupe={dedupe}>
+      <Capture />
+      <StatusMessageList {...props} />
+    </StatusMessageProvider>,
+  );
+
+  return {
+    ...result,
+    queue: () => queue.current as StatusMessagesContextValue,
+  };
+}
+
+describe("StatusMessageProvider dedupe", () => {
+  test("collapses repeats into one message with a counter", async () => {
+    const { lastFrame, queue, frames } = renderQueue(true);
+
+    for (let index = 0; index < 5; index++) {
+      queue().push({ variant: "warning", message: "Disk almost full" });
+    }
+    await settle(frames);
+
+    expect(queue().messages).toHaveLength(1);
+    expect(queue().messages[0]?.count).toBe(5);
+    expect(lastFrame()).toContain("×5");
+    expect(lastFrame()?.match(/Disk almost full/g)).toHaveLength(1);
+  });
+
+  test("returns the identifier of the collapsed message", () => {
+    const { queue } = renderQueue(true);
+
+    const first = queue().push({ variant: "info", message: "Synced" });
+    const repeat = queue().push({ variant: "info", message: "Synced" });
+
+    expect(repeat).toBe(first);
+  });
+
+  test("keeps messages of different variants apart", async () => {
+    const { queue, frames } = renderQueue(true);
+
+    queue().push({ variant: "info", message: "Retrying" });
+    queue().push({ variant: "warning", message: "Retrying" });
+    await settle(frames);
+
+    expect(queue().messages).toHaveLength(2);
+  });
+
+  test("collapses messages sharing a dedupeKey", async () => {
+    const { lastFrame, queue, frames } = renderQueue(true);
+
+    queue().push({ variant: "error", message: "Timeout 1", dedupeKey: "net" });
+    queue().push({ variant: "error", message: "Timeout 2", dedupeKey: "net" });
+    await settle(frames);
+
+    expect(queue().messages).toHaveLength(1);
+    expect(lastFrame()).toContain("Timeout 2");
+    expect(lastFrame()).toContain("×2");
+  });
+
+  test("uses the key function of the policy", async () => {
+    const { queue, frames } = renderQueue({ key: () => "all" });
+
+    queue().push({ variant: "info", message: "One" });
+    queue().push({ variant: "info", message: "Two" });
+    await settle(frames);
+
+    expect(queue().messages).toHaveLength(1);
+  });
+
+  test("starts a new message outside the window", async () => {
+    const { queue, frames } = renderQueue({ window: 0 });
+
+    queue().push({ variant: "info", message: "Polling" });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    queue().push({ variant: "info", message: "Polling" });
+    await settle(frames);
+
+    expect(queue().messages).toHaveLength(2);
+  });
+
+  test("does not collapse repeats by default", async () => {
+    const { lastFrame, queue, frames } = renderQueue(false);
+
+    queue().push({ variant: "info", message: "Tick" });
+    queue().push({ variant: "info", message: "Tick" });
+    await settle(frames);
+
+    expect(queue().messages).toHaveLength(2);
+    expect(lastFrame()).not.toContain("×");
+  });
+
+  test("renders the last-seen time with showLastSeen", async () => {
+    const { lastFrame, queue, frames } = renderQueue(true, {
+      showLastSeen: true,
+    });
+
+    queue().push({ variant: "info", message: "Heartbeat" });
+    queue().push({ variant: "info", message: "Heartbeat" });
+    await settle(frames);
+
+    expect(lastFrame()).toMatch(/last seen \d{2}:\d{2}:\d{2}/);
+  });
+});
+
+describe("StatusMessageGroup dedupe", () => {
+  test("collapses repeated children and counts them in the summary", () => {
+    const { lastFrame } = render(
+      <StatusMessageGroup dedupe>
+        <StatusMessage variant="warning">Unused import</StatusMessage>
+        <StatusMessage variant="warning">Unused import</StatusMessage>
+        <StatusMessage variant="warning">Unused import</StatusMessage>
+        <StatusMessage variant="error">Missing semicolon</StatusMessage>
+      </StatusMessageGroup>,
+    );
+
+    expect(lastFrame()).toContain("3 warnings");
+    expect(lastFrame()).toContain("×3");
+    expect(lastFrame()?.match(/Unused import/g)).toHaveLength(1);
+  });
+
+  test("keeps distinct errors apart", () => {
+    const { lastFrame } = render(
+      <StatusMessageGroup dedupe>
+        <ErrorMessage error={errorWithoutStack("Disk full")} />
+        <ErrorMessage error={errorWithoutStack("Out of memory")} />
+      </StatusMessageGroup>,
+    );
+
+    expect(lastFrame()).toContain("2 errors");
+    expect(lastFrame()).toContain("Disk full");
+    expect(lastFrame()).toContain("Out of memory");
+    expect(lastFrame()).not.toContain("×");
+  });
+
+  test("collapses repeated errors with a counter", () => {
+    const { lastFrame } = render(
+      <StatusMessageGroup dedupe>
+        <ErrorMessage error={errorWithoutStack("Disk full")} />
+        <ErrorMessage error={errorWithoutStack("Disk full")} />
+      </StatusMessageGroup>,
+    );
+
+    expect(lastFrame()).toContain("2 errors");
+    expect(lastFrame()).toContain("×2");
+    expect(lastFrame()?.match(/Disk full/g)).toHaveLength(1);
+  });
+
+  test("renders the count prop of a message", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="info" count={4}>
+        Reconnected
+      </StatusMessage>,
+    );
+
+    expect(lastFrame()).toContain("Reconnected");
+    expect(lastFrame()).toContain("×4");
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Test suite for StatusMessage auto-dismiss timers.
+ *
+ * Tests for duration, onExpire, per-variant default durations, pausing and
+ * the countdown indicator, driven by fake timers.
+ */
+
+import { afterEach, beforeEach, describe, test, expect, jest } from "bun:test";
+import { render } from "tinky-test";
+import { ThemeProvider } from "tinky-theme";
+import { StatusMessage } from "../src/index.js";
+import { useExpiryTimer } from "../src/hooks/use-expiry-timer.js";
+
+/**
+ * Advances the fake clock, then flushes the zero-delay timers on which React
+ * schedules the renders and effects the elapsed timers triggered.
+ */
+function advance(milliseconds: number) {
+  jest.advanceTimersByTime(milliseconds);
+  for (let flush = 0; flush < 5; flush++) {
+    jest.advanceTimersByTime(0);
+  }
+}
+
+describe("StatusMessage expiry", () => {
+  beforeEach(async () => {
+    // Let React finish the work earlier tests scheduled on real timers, which
+    // would otherwise keep it from scheduling on the fake ones.
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test("stays rendered without a duration", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="error">Build failed</StatusMessage>,
+    );
+
+    advance(60_000);
+
+    expect(lastFrame()).toContain("Build failed");
+  });
+
+  test("expires after its duration and calls onExpire once", () => {
+    const onExpire = jest.fn();
+    const { lastFrame } = render(
+      <StatusMessage variant="success" duration={3000} onExpire={onExpire}>
+        Saved
+      </StatusMessage>,
+    );
+
+    advance(2000);
+    expect(lastFrame()).toContain("Saved");
+    expect(onExpire).not.toHaveBeenCalled();
+
+    advance(1000);
+    expect(lastFrame()).not.toContain("Saved");
+    expect(onExpire).toHaveBeenCalledTimes(1);
+
+    advance(5000);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  test("uses the variant duration from the theme", () => {
+    const onExpire = jest.fn();
+    const { lastFrame } = render(
+      <ThemeProvider
+        theme={{
+          components: {
+            StatusMessage: {
+              config: { variants: { info: { duration: 1000 } } },
+            },
+          },
+        }}
+      >
+        <StatusMessage variant="info" onExpire={onExpire}>
+          Heads up
+        </StatusMessage>
+        <StatusMessage variant="error">Still here</StatusMessage>
+      </ThemeProvider>,
+    );
+
+    advance(1000);
+
+    expect(onExpire).toHaveBeenCalledTimes(1);
+    expect(lastFrame()).not.toContain("Heads up");
+    expect(lastFrame()).toContain("Still here");
+  });
+
+  test("duration prop overrides the variant duration", () => {
+    const { lastFrame } = render(
+      <ThemeProvider
+        theme={{
+          components: {
+            StatusMessage: {
+              config: { variants: { info: { duration: 1000 } } },
+            },
+          },
+        }}
+      >
+        <StatusMessage variant="info" duration={Infinity}>
+          Pinned
+        </StatusMessage>
+      </ThemeProvider>,
+    );
+
+    advance(10_000);
+
+    expect(lastFrame()).toContain("Pinned");
+  });
+
+  test("renders a countdown indicator", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="success" duration={3000} showCountdown>
+        Saved
+      </StatusMessage>,
+    );
+
+    expect(lastFrame()).toContain("3s");
+
+    advance(1000);
+    expect(lastFrame()).toContain("2s");
+  });
+
+  test("restarts the countdown when the count changes", () => {
+    const message = (count: number) => (
+      <StatusMessage variant="warning" duration={3000} count={count}>
+        Disk almost full
+      </StatusMessage>
+    );
+    const { lastFrame, rerender } = render(message(1));
+
+    advance(2000);
+    rerender(message(2));
+    advance(2000);
+    expect(lastFrame()).toContain("Disk almost full");
+
+    advance(1000);
+    expect(lastFrame()).not.toContain("Disk almost full");
+  });
+
+  test("useExpiryTimer pauses the countdown", () => {
+    const onExpire = jest.fn();
+    const state: { remaining?: number } = {};
+
+    function Timer({ paused }: { paused: boolean }) {
+      state.remaining = useExpiryTimer({
+        duration: 2000,
+        paused,
+        onExpire,
+      }).remaining;
+      return null;
+    }
+
+    const { rerender } = render(<Timer paused={false} />);
+    advance(1000);
+    expect(state.remaining).toBe(1000);
+
+    rerender(<Timer paused />);
+    advance(5000);
+    expect(state.remaining).toBe(1000);
+    expect(onExpire).not.toHaveBeenCalled();
+
+    rerender(<Timer paused={false} />);
+    advance(1000);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+  });
+});
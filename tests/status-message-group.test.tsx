@@ -0,0 +1,127 @@
+/**
+ * Test suite for StatusMessageGroup.
+ *
+ * Tests for the per-variant summary line, sorting by severity, grouping
+ * under subheadings and overriding the count format through the theme.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { render } from "tinky-test";
+import { ThemeProvider } from "tinky-theme";
+import {
+  ErrorMessage,
+  StatusMessage,
+  StatusMessageGroup,
+  TerminalCapabilitiesProvider,
+  type StatusMessageGroupProps,
+} from "../src/index.js";
+
+/**
+ * Returns an error without stack frames, so that only its message renders.
+ */
+function errorWithoutStack(message: string): Error {
+  return Object.assign(new Error(message), { stack: undefined });
+}
+
+/**
+ * Collapses the gap after the icon of each line. The layout engine measures
+ * some figures, such as `ℹ`, as two columns wide, which widens the gap.
+ */
+function collapseIconGaps(frame = ""): string {
+  return frame
+    .split("\n")
+    .map((line) => line.replace(/^(\S) +/, "$1 "))
+    .join("\n");
+}
+
+function renderGroup(props: Omit<StatusMessageGroupProps, "children"> = {}) {
+  return render(
+    <TerminalCapabilitiesProvider capabilities={{ unicode: true }}>
+      <StatusMessageGroup {...props}>
+        <StatusMessage variant="warning">Deprecated flag</StatusMessage>
+        <StatusMessage variant="error">Missing semicolon</StatusMessage>
+        <StatusMessage variant="info">Cache warmed</StatusMessage>
+        <ErrorMessage error={errorWithoutStack("Disk full")} />
+        <StatusMessage variant="warning">Unused import</StatusMessage>
+      </StatusMessageGroup>
+    </TerminalCapabilitiesProvider>,
+  );
+}
+
+describe("StatusMessageGroup", () => {
+  test("summarizes the messages per variant, most severe first", () => {
+    const { lastFrame } = renderGroup();
+
+    const [summary] = (lastFrame() ?? "").split("\n");
+
+    expect(summary).toMatch(/^✘ 2 errors {2}⚠ +2 warnings {2,}ℹ +1 info$/);
+  });
+
+  test("keeps the order of the children by default", () => {
+    const { lastFrame } = renderGroup({ showSummary: false });
+
+    expect(collapseIconGaps(lastFrame())).toBe(
+      [
+        "⚠ Deprecated flag",
+        "✘ Missing semicolon",
+        "ℹ Cache warmed",
+        "✘ Disk full",
+        "⚠ Unused import",
+      ].join("\n"),
+    );
+  });
+
+  test("sorts messages by severity", () => {
+    const { lastFrame } = renderGroup({ sort: "severity", showSummary: false });
+
+    expect(collapseIconGaps(lastFrame())).toBe(
+      [
+        "✘ Missing semicolon",
+        "✘ Disk full",
+        "⚠ Deprecated flag",
+        "⚠ Unused import",
+        "ℹ Cache warmed",
+      ].join("\n"),
+    );
+  });
+
+  test("groups messages under per-variant subheadings", () => {
+    const { lastFrame } = renderGroup({
+      groupByVariant: true,
+      showSummary: false,
+    });
+
+    expect(collapseIconGaps(lastFrame())).toContain(
+      "✘ 2 errors\n✘ Missing semicolon\n✘ Disk full",
+    );
+    expect(collapseIconGaps(lastFrame())).toContain(
+      "⚠ 2 warnings\n⚠ Deprecated flag\n⚠ Unused import",
+    );
+  });
+
+  test("formats counts through the theme", () => {
+    const { lastFrame } = render(
+      <ThemeProvider
+        theme={{
+          components: {
+            StatusMessageGroup: {
+              config: {
+                formatCount: (count: number, variant: string) =>
+                  `${variant}=${count}`,
+              },
+            },
+          },
+        }}
+      >
+        <TerminalCapabilitiesProvider capabilities={{ unicode: true }}>
+          <StatusMessageGroup>
+            <StatusMessage variant="success">Built</StatusMessage>
+            <StatusMessage variant="success">Tested</StatusMessage>
+          </StatusMessageGroup>
+        </TerminalCapabilitiesProvider>
+      </ThemeProvider>,
+    );
+
+    expect(lastFrame()?.split("\n")[0]).toBe("✔ success=2");
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Test suite for StatusMessage icon overrides.
+ *
+ * Tests for the `icon` prop, the theme-level `config.resolveIcon` resolver,
+ * hidden icons collapsing their column, and icon overrides in
+ * StatusMessageGroup summaries and `formatStatusMessage`.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { Text } from "tinky";
+import { render } from "tinky-test";
+import { ThemeProvider } from "tinky-theme";
+import {
+  formatStatusMessage,
+  StatusMessage,
+  StatusMessageGroup,
+  StatusMessageOutputProvider,
+  TerminalCapabilitiesProvider,
+  type StatusMessageFigures,
+  type StatusMessageIconResolver,
+  type StatusMessageVariant,
+} from "../src/index.js";
+
+function withResolver(resolveIcon: StatusMessageIconResolver) {
+  return { components: { StatusMessage: { config: { resolveIcon } } } };
+}
+
+describe("StatusMessage icon prop", () => {
+  test("replaces the variant icon with a string", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="success" icon="🚀">
+        Deployed
+      </StatusMessage>,
+    );
+
+    expect(lastFrame()).toBe("🚀 Deployed");
+  });
+
+  test("replaces the variant icon with a node", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="info" icon={<Text bold>»</Text>}>
+        Watching
+      </StatusMessage>,
+    );
+
+    expect(lastFrame()).toBe("» Watching");
+  });
+
+  test("hides the icon and its gap with false", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="error" icon={false} title="Build failed">
+        2 type errors
+      </StatusMessage>,
+    );
+
+    expect(lastFrame()).toBe("Build failed\n2 type errors");
+  });
+
+  test("hides the icon of the banner header", () => {
+    const { lastFrame } = render(
+      <StatusMessage
+        variant="error"
+        layout="banner"
+        icon={false}
+        title="Build failed"
+      >
+        2 type errors
+      </StatusMessage>,
+    );
+
+    const [, header = ""] = (lastFrame() ?? "").split("\n");
+    expect(header).toContain("Build failed");
+    expect(header).not.toContain("✘");
+  });
+
+  test("replaces the spinner of pending messages", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="pending" icon="…">
+        Installing
+      </StatusMessage>,
+    );
+
+    expect(lastFrame()).toBe("… Installing");
+  });
+
+  test("keeps the label in accessible mode", () => {
+    const { lastFrame } = render(
+      <StatusMessageOutputProvider mode="interactive" accessible>
+        <StatusMessage variant="error" icon={false}>
+          Build failed
+        </StatusMessage>
+      </StatusMessageOutputProvider>,
+    );
+
+    expect(lastFrame()).toBe("Error: Build failed");
+  });
+});
+
+describe("config.resolveIcon", () => {
+  test("receives the variant and the figures", () => {
+    const calls: [StatusMessageVariant, StatusMessageFigures][] = [];
+    render(
+      <ThemeProvider
+        theme={withResolver((variant, figures) => {
+          calls.push([variant, figures]);
+          return undefined;
+        })}
+      >
+        <StatusMessage variant="warning">Deprecated flag</StatusMessage>
+      </ThemeProvider>,
+    );
+
+    const [variant, figures] = calls[0] ?? [];
+    expect(variant).toBe("warning");
+    expect(figures?.warning).toBe("⚠");
+  });
+
+  test("receives ASCII figures without unicode support", () => {
+    const { lastFrame } = render(
+      <TerminalCapabilitiesProvider capabilities={{ unicode: false }}>
+        <ThemeProvider
+          theme={withResolver((_variant, figures) => figures.tick)}
+        >
+          <StatusMessage variant="info">Deployed</StatusMessage>
+        </ThemeProvider>
+      </TerminalCapabilitiesProvider>,
+    );
+
+    expect(lastFrame()).toBe("√ Deployed");
+  });
+
+  test("keeps the registry icon when returning undefined", () => {
+    const { lastFrame } = render(
+      <ThemeProvider
+        theme={withResolver((variant) =>
+          variant === "error" ? "!!" : undefined,
+        )}
+      >
+        <StatusMessage variant="error">Build failed</StatusMessage>
+        <StatusMessage variant="debug">Cache hit</StatusMessage>
+      </ThemeProvider>,
+    );
+
+    expect(lastFrame()).toBe("!! Build failed\n● Cache hit");
+  });
+
+  test("yields to the icon prop", () => {
+    const { lastFrame } = render(
+      <ThemeProvider theme={withResolver(() => false)}>
+        <StatusMessage variant="info" icon="→">
+          Retrying
+        </StatusMessage>
+      </ThemeProvider>,
+    );
+
+    expect(lastFrame()).toBe("→ Retrying");
+  });
+
+  test("hides the icons of StatusMessageGroup summaries", () => {
+    const { lastFrame } = render(
+      <TerminalCapabilitiesProvider capabilities={{ unicode: true }}>
+        <ThemeProvider theme={withResolver(() => false)}>
+          <StatusMessageGroup>
+            <StatusMessage variant="error">Missing semicolon</StatusMessage>
+            <StatusMessage variant="warning">Unused import</StatusMessage>
+          </StatusMessageGroup>
+        </ThemeProvider>
+      </TerminalCapabilitiesProvider>,
+    );
+
+    const [summary] = (lastFrame() ?? "").split("\n");
+    expect(summary).toBe("1 error  1 warning");
+  });
+});
+
+describe("formatStatusMessage icon", () => {
+  const options = { color: false, unicode: true, accessible: false };
+
+  test("replaces the variant icon", () => {
+    expect(
+      formatStatusMessage(
+        { variant: "success", icon: "🚀", message: "Deployed" },
+        options,
+      ),
+    ).toBe("🚀 Deployed");
+  });
+
+  test("hides the icon column with false", () => {
+    expect(
+      formatStatusMessage(
+        {
+          variant: "error",
+          icon: false,
+          title: "Build failed",
+          message: "2 type errors",
+        },
+        options,
+      ),
+    ).toBe("Build failed\n2 type errors");
+  });
+
+  test("applies config.resolveIcon of the theme", () => {
+    expect(
+      formatStatusMessage(
+        { variant: "warning", message: "Deprecated flag" },
+        {
+          ...options,
+          theme: { config: { resolveIcon: (variant) => `[${variant}]` } },
+        },
+      ),
+    ).toBe("[warning] Deprecated flag");
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Test suite for StatusMessage hyperlinks.
+ *
+ * Tests for OSC 8 hyperlink formatting, the `href` prop, inline
+ * `StatusMessage.Link` elements and their `text (url)` fallbacks.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { render } from "tinky-test";
+import {
+  formatHyperlink,
+  formatStatusMessage,
+  StatusMessage,
+  StatusMessageOutputProvider,
+  TerminalCapabilitiesProvider,
+} from "../src/index.js";
+
+const url = "https://example.com/docs";
+
+describe("formatHyperlink", () => {
+  test("emits an OSC 8 hyperlink when supported", () => {
+    expect(formatHyperlink("Docs", url, true)).toBe(
+      `\u001B]8;;${url}\u0007Docs\u001B]8;;\u0007`,
+    );
+  });
+
+  test("falls back to text and url", () => {
+    expect(formatHyperlink("Docs", url, false)).toBe(`Docs (${url})`);
+  });
+
+  test("shows the url alone without text", () => {
+    expect(formatHyperlink("", url, false)).toBe(url);
+    expect(formatHyperlink("", url, true)).toBe(
+      `\u001B]8;;${url}\u0007${url}\u001B]8;;\u0007`,
+    );
+  });
+});
+
+describe("StatusMessage links", () => {
+  test("renders the href link under the message", () => {
+    const { lastFrame } = render(
+      <TerminalCapabilitiesProvider
+        capabilities={{ unicode: true, hyperlinks: false }}
+      >
+        <StatusMessage variant="error" href={url} linkText="Learn more">
+          Token expired
+        </StatusMessage>
+      </TerminalCapabilitiesProvider>,
+    );
+
+    expect(lastFrame()).toBe(`✘ Token expired\n  Learn more (${url})`);
+  });
+
+  test("emits OSC 8 hyperlinks when supported", () => {
+    const { lastFrame } = render(
+      <TerminalCapabilitiesProvider capabilities={{ hyperlinks: true }}>
+        <StatusMessage variant="info" href={url} linkText="Learn more">
+          Docs moved
+        </StatusMessage>
+      </TerminalCapabilitiesProvider>,
+    );
+
+    expect(lastFrame()).toContain(`\u001B]8;;${url}\u0007`);
+    expect(lastFrame()).not.toContain(`(${url})`);
+  });
+
+  test("renders inline links inside the message", () => {
+    const { lastFrame } = render(
+      <TerminalCapabilitiesProvider
+        capabilities={{ unicode: true, hyperlinks: false }}
+      >
+        <StatusMessage variant="info">
+          See <StatusMessage.Link href={url}>the docs</StatusMessage.Link>
+        </StatusMessage>
+      </TerminalCapabilitiesProvider>,
+    );
+
+    expect(lastFrame()).toStartWith("ℹ");
+    expect(lastFrame()).toEndWith(` See the docs (${url})`);
+  });
+
+  test("includes links in CI annotations", () => {
+    const { lastFrame } = render(
+      <StatusMessageOutputProvider mode="plain">
+        <StatusMessage variant="error" href={url} linkText="Learn more">
+          Token expired
+        </StatusMessage>
+      </StatusMessageOutputProvider>,
+    );
+
+    expect(lastFrame()).toContain(`Learn more (${url})`);
+  });
+});
+
+describe("formatStatusMessage links", () => {
+  test("formats the href link", () => {
+    expect(
+      formatStatusMessage(
+        { variant: "warning", message: "Deprecated", href: url },
+        { color: false, unicode: true, accessible: false, hyperlinks: false },
+      ),
+    ).toBe(`⚠  Deprecated\n   ${url}`);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Test suite for the StatusMessage queue.
+ *
+ * Tests for StatusMessageProvider, the useStatusMessages hook and the
+ * StatusMessageList outlet, covering queue operations, ordering and overflow.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { render } from "tinky-test";
+import {
+  StatusMessageList,
+  StatusMessageProvider,
+  useStatusMessages,
+  type StatusMessageListProps,
+  type StatusMessagesContextValue,
+} from "../src/index.js";
+
+/**
+ * Waits until no frame has been rendered for a while, so that queue updates
+ * are rendered.
+ */
+async function settle(frames: readonly string[]) {
+  let count;
+  do {
+    count = frames.length;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  } while (frames.length !== count);
+}
+
+function renderQueue(props: StatusMessageListProps = {}) {
+  const queue: { current?: StatusMessagesContextValue } = {};
+
+  function Capture() {
+    queue.current = useStatusMessages();
+    return null;
+  }
+
+  const result = render(
+    <StatusMessageProvider>
+      <Capture />
+      <StatusMessageList {...props} />
+    </StatusMessageProvider>,
+  );
+
+  return {
+    ...result,
+    queue: () => queue.current as StatusMessagesContextValue,
+  };
+}
+
+describe("StatusMessageList", () => {
+  test("renders pushed messages", async () => {
+    const { lastFrame, queue, frames } = renderQueue();
+
+    queue().push({ variant: "success", message: "Deployed" });
+    await settle(frames);
+
+    expect(lastFrame()).toContain("✔");
+    expect(lastFrame()).toContain("Deployed");
+  });
+
+  test("push with a queued identifier replaces the message", async () => {
+    const { lastFrame, queue, frames } = renderQueue();
+
+    queue().push({ id: "build", variant: "info", message: "Building" });
+    queue().push({ variant: "info", message: "Linting" });
+    queue().push({ id: "build", variant: "success", message: "Built" });
+    await settle(frames);
+
+    expect(queue().messages.map((message) => message.id)).toEqual([
+      "build",
+      "status-message-2",
+    ]);
+    const output = lastFrame() ?? "";
+    expect(output).not.toContain("Building");
+    expect(output.indexOf("Built")).toBeLessThan(output.indexOf("Linting"));
+  });
+
+  test("push returns generated and custom identifiers", () => {
+    const { queue } = renderQueue();
+
+    const generated = queue().push({ variant: "info", message: "One" });
+    const custom = queue().push({ id: "build", variant: "info", message: "" });
+
+    expect(generated).toBeString();
+    expect(custom).toBe("build");
+  });
+
+  test("update changes a message in place", async () => {
+    const { lastFrame, queue, frames } = renderQueue();
+
+    const id = queue().push({ variant: "info", message: "Deploying" });
+    await settle(frames);
+    queue().update(id, { variant: "error", message: "Deploy failed" });
+    await settle(frames);
+
+    expect(lastFrame()).toContain("✘");
+    expect(lastFrame()).toContain("Deploy failed");
+    expect(lastFrame()).not.toContain("Deploying");
+  });
+
+  test("dismiss removes a single message", async () => {
+    const { lastFrame, queue, frames } = renderQueue();
+
+    const id = queue().push({ variant: "info", message: "First" });
+    queue().push({ variant: "info", message: "Second" });
+    await settle(frames);
+    queue().dismiss(id);
+    await settle(frames);
+
+    expect(lastFrame()).not.toContain("First");
+    expect(lastFrame()).toContain("Second");
+  });
+
+  test("clear removes every message", async () => {
+    const { lastFrame, queue, frames } = renderQueue();
+
+    queue().push({ variant: "info", message: "First" });
+    queue().push({ variant: "info", message: "Second" });
+    await settle(frames);
+    queue().clear();
+    await settle(frames);
+
+    expect(queue().messages).toHaveLength(0);
+    expect(lastFrame()).not.toContain("First");
+  });
+
+  test("renders newest last by default", async () => {
+    const { lastFrame, queue, frames } = renderQueue();
+
+    queue().push({ variant: "info", message: "Older" });
+    queue().push({ variant: "info", message: "Newer" });
+    await settle(frames);
+
+    const output = lastFrame() ?? "";
+    expect(output.indexOf("Older")).toBeLessThan(output.indexOf("Newer"));
+  });
+
+  test("renders newest first when requested", async () => {
+    const { lastFrame, queue, frames } = renderQueue({ order: "newest-first" });
+
+    queue().push({ variant: "info", message: "Older" });
+    queue().push({ variant: "info", message: "Newer" });
+    await settle(frames);
+
+    const output = lastFrame() ?? "";
+    expect(output.indexOf("Newer")).toBeLessThan(output.indexOf("Older"));
+  });
+
+  test("limits visible messages and summarizes the overflow", async () => {
+    const { lastFrame, queue, frames } = renderQueue({ maxVisible: 2 });
+
+    for (const message of ["One", "Two", "Three", "Four", "Five"]) {
+      queue().push({ variant: "info", message });
+    }
+    await settle(frames);
+
+    const output = lastFrame() ?? "";
+    expect(output).toContain("+3 more");
+    expect(output).not.toContain("Three");
+    expect(output).toContain("Four");
+    expect(output).toContain("Five");
+    expect(output.indexOf("+3 more")).toBeLessThan(output.indexOf("Four"));
+  });
+
+  test("places the overflow summary last for newest first", async () => {
+    const { lastFrame, queue, frames } = renderQueue({
+      maxVisible: 1,
+      order: "newest-first",
+    });
+
+    queue().push({ variant: "info", message: "Older" });
+    queue().push({ variant: "info", message: "Newer" });
+    await settle(frames);
+
+    const output = lastFrame() ?? "";
+    expect(output.indexOf("Newer")).toBeLessThan(output.indexOf("+1 more"));
+  });
+
+  test("hides the overflow summary when disabled", async () => {
+    const { lastFrame, queue, frames } = renderQueue({
+      maxVisible: 1,
+      showOverflow: false,
+    });
+
+    queue().push({ variant: "info", message: "Older" });
+    queue().push({ variant: "info", message: "Newer" });
+    await settle(frames);
+
+    expect(lastFrame()).not.toContain("more");
+  });
+
+  test("useStatusMessages throws outside of a provider", () => {
+    function Orphan() {
+      useStatusMessages();
+      return null;
+    }
+
+    const { frames } = render(<Orphan />);
+
+    expect(frames.join("\n")).toContain(
+      "useStatusMessages() must be used within a <StatusMessageProvider>",
+    );
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Test suite for StatusMessage localization.
+ *
+ * Tests for the default English catalog, catalog overrides through
+ * StatusMessageLocaleProvider, plural rules of other locales, swapping the
+ * catalog at runtime and the translate helpers.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { useEffect, useState } from "react";
+import { render } from "tinky-test";
+import {
+  createStatusMessageTranslate,
+  ErrorMessage,
+  formatRelativeTime,
+  formatStatusMessage,
+  StatusMessage,
+  statusMessageCatalog,
+  type StatusMessageCatalog,
+  StatusMessageGroup,
+  StatusMessageLocaleProvider,
+  StatusMessageOutputProvider,
+  StatusMessageTimestampProvider,
+  translateStatusMessage,
+} from "../src/index.js";
+import { formatDuration } from "../src/utils/progress.js";
+
+/**
+ * Waits until no frame has been rendered for a while, so that state updates
+ * are rendered.
+ */
+async function settle(frames: readonly string[]) {
+  let count;
+  do {
+    count = frames.length;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  } while (frames.length !== count);
+}
+
+const diagnostics = ["line 1", "line 2", "line 3"].join("\n");
+
+const german: Partial<StatusMessageCatalog> = {
+  "label.error": "Fehler",
+  "details.expand": "aufklappen",
+  "details.moreLines": {
+    one: "{count} weitere Zeile",
+    other: "{count} weitere Zeilen",
+  },
+  "time.minutesAgo": "vor {count} Min.",
+  "group.count.error": { one: "{count} Fehler", other: "{count} Fehler" },
+  "error.causedBy": "Verursacht durch:",
+  "countdown.seconds": "noch {count} s",
+  "duration.minutes": "{minutes} Min. {seconds} s",
+};
+
+describe("StatusMessageLocaleProvider", () => {
+  test("renders English strings without a provider", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="error" details={diagnostics} collapsible>
+        Build failed
+      </StatusMessage>,
+    );
+
+    expect(lastFrame()).toContain("3 more lines");
+    expect(lastFrame()).toContain("expand");
+  });
+
+  test("translates built-in strings", () => {
+    const { lastFrame } = render(
+      <StatusMessageLocaleProvider locale="de" messages={german}>
+        <StatusMessage variant="error" details={diagnostics} collapsible>
+          Build fehlgeschlagen
+        </StatusMessage>
+      </StatusMessageLocaleProvider>,
+    );
+
+    expect(lastFrame()).toContain("3 weitere Zeilen");
+    expect(lastFrame()).toContain("aufklappen");
+  });
+
+  test("translates accessible labels", () => {
+    const { lastFrame } = render(
+      <StatusMessageOutputProvider mode="interactive" accessible>
+        <StatusMessageLocaleProvider messages={german}>
+          <StatusMessage variant="error">Build fehlgeschlagen</StatusMessage>
+          <StatusMessage variant="warning">Veraltet</StatusMessage>
+        </StatusMessageLocaleProvider>
+      </StatusMessageOutputProvider>,
+    );
+
+    expect(lastFrame()).toContain("Fehler:");
+    expect(lastFrame()).toContain("Warning:");
+  });
+
+  test("translates relative timestamps", () => {
+    const { lastFrame } = render(
+      <StatusMessageLocaleProvider messages={german}>
+        <StatusMessageTimestampProvider
+          format="relative"
+          clock={() => 3 * 60_000}
+        >
+          <StatusMessage variant="info" timestamp={0}>
+            Synchronisiert
+          </StatusMessage>
+        </StatusMessageTimestampProvider>
+      </StatusMessageLocaleProvider>,
+    );
+
+    expect(lastFrame()).toContain("vor 3 Min.");
+  });
+
+  test("translates group summaries", () => {
+    const { lastFrame } = render(
+      <StatusMessageLocaleProvider messages={german}>
+        <StatusMessageGroup>
+          <StatusMessage variant="error">A</StatusMessage>
+          <StatusMessage variant="error">B</StatusMessage>
+          <StatusMessage variant="warning">C</StatusMessage>
+        </StatusMessageGroup>
+      </StatusMessageLocaleProvider>,
+    );
+
+    expect(lastFrame()).toContain("2 Fehler");
+    expect(lastFrame()).toContain("1 warning");
+  });
+
+  test("translates error details", () => {
+    const { lastFrame } = render(
+      <StatusMessageLocaleProvider messages={german}>
+        <ErrorMessage
+          error={new Error("Deploy failed", { cause: new Error("Timeout") })}
+        />
+      </StatusMessageLocaleProvider>,
+    );
+
+    expect(lastFrame()).toContain("Verursacht durch: Timeout");
+  });
+
+  test("translates countdowns", () => {
+    const { lastFrame } = render(
+      <StatusMessageLocaleProvider messages={german}>
+        <StatusMessage variant="success" duration={3000} showCountdown>
+          Gespeichert
+        </StatusMessage>
+      </StatusMessageLocaleProvider>,
+    );
+
+    expect(lastFrame()).toContain("noch 3 s");
+  });
+
+  test("merges nested catalogs", () => {
+    const { lastFrame } = render(
+      <StatusMessageLocaleProvider messages={german}>
+        <StatusMessageLocaleProvider messages={{ "details.expand": "öffnen" }}>
+          <StatusMessage variant="error" details={diagnostics} collapsible>
+            Build fehlgeschlagen
+          </StatusMessage>
+        </StatusMessageLocaleProvider>
+      </StatusMessageLocaleProvider>,
+    );
+
+    expect(lastFrame()).toContain("3 weitere Zeilen");
+    expect(lastFrame()).toContain("öffnen");
+  });
+
+  test("swaps the catalog at runtime", async () => {
+    function Switching() {
+      const [messages, setMessages] = useState<
+        Partial<StatusMessageCatalog> | undefined
+      >(undefined);
+
+      useEffect(() => {
+        setMessages(german);
+      }, []);
+
+      return (
+        <StatusMessageLocaleProvider messages={messages}>
+          <StatusMessage variant="error" details={diagnostics} collapsible>
+            Build failed
+          </StatusMessage>
+        </StatusMessageLocaleProvider>
+      );
+    }
+
+    const { lastFrame, frames } = render(<Switching />);
+    await settle(frames);
+
+    expect(lastFrame()).toContain("3 weitere Zeilen");
+  });
+});
+
+describe("createStatusMessageTranslate", () => {
+  test("interpolates parameters", () => {
+    expect(translateStatusMessage("repeat.lastSeen", { time: "14:03" })).toBe(
+      "last seen 14:03",
+    );
+  });
+
+  test("selects English plural forms", () => {
+    expect(translateStatusMessage("details.moreLines", { count: 1 })).toBe(
+      "1 more line",
+    );
+    expect(translateStatusMessage("details.moreLines", { count: 0 })).toBe(
+      "0 more lines",
+    );
+  });
+
+  test("selects the plural forms of the locale", () => {
+    const translate = createStatusMessageTranslate("pl", {
+      ...statusMessageCatalog,
+      "details.moreLines": {
+        one: "{count} linia więcej",
+        few: "{count} linie więcej",
+        many: "{count} linii więcej",
+        other: "{count} linii więcej",
+      },
+    });
+
+    expect(translate("details.moreLines", { count: 1 })).toBe("1 linia więcej");
+    expect(translate("details.moreLines", { count: 3 })).toBe("3 linie więcej");
+    expect(translate("details.moreLines", { count: 5 })).toBe("5 linii więcej");
+  });
+
+  test("falls back to other for missing plural forms", () => {
+    const translate = createStatusMessageTranslate("ja", {
+      ...statusMessageCatalog,
+      "details.moreLines": { other: "他{count}行" },
+    });
+
+    expect(translate("details.moreLines", { count: 1 })).toBe("他1行");
+  });
+
+  test("resolves missing keys to the default value", () => {
+    expect(
+      translateStatusMessage("label.deploy", { defaultValue: "Deploy" }),
+    ).toBe("Deploy");
+    expect(translateStatusMessage("label.deploy")).toBe("label.deploy");
+  });
+
+  test("formats relative times with a translate function", () => {
+    const translate = createStatusMessageTranslate("ja", {
+      ...statusMessageCatalog,
+      "time.justNow": "たった今",
+      "time.minutesAgo": "{count}分前",
+    });
+
+    expect(formatRelativeTime(0, 120_000, translate)).toBe("2分前");
+    expect(formatRelativeTime(0, 500, translate)).toBe("たった今");
+  });
+
+  test("formats durations with a translate function", () => {
+    const translate = createStatusMessageTranslate("de", {
+      ...statusMessageCatalog,
+      ...german,
+    });
+
+    expect(formatDuration(65_000, translate)).toBe("1 Min. 05 s");
+    expect(formatDuration(12_000, translate)).toBe("12s");
+  });
+
+  test("translates labels of formatted messages", () => {
+    expect(
+      formatStatusMessage(
+        { variant: "error", message: "Build fehlgeschlagen" },
+        {
+          color: false,
+          accessible: true,
+          translate: createStatusMessageTranslate("de", {
+            ...statusMessageCatalog,
+            "label.error": "Fehler",
+          }),
+        },
+      ),
+    ).toBe("Fehler: Build fehlgeschlagen");
+  });
+});
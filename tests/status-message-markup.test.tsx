@@ -0,0 +1,73 @@
+/**
+ * Test suite for StatusMessage inline markup.
+ *
+ * Tests for rendering opt-in markup in titles, messages, details and CI
+ * annotations.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { render } from "tinky-test";
+import { StatusMessage, StatusMessageOutputProvider } from "../src/index.js";
+
+describe("StatusMessage markup", () => {
+  test("renders markup literally unless enabled", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="info">Run `npm test`</StatusMessage>,
+    );
+
+    expect(lastFrame()).toContain("Run `npm test`");
+  });
+
+  test("removes delimiters when enabled", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="error" markup title="Failed in **build**">
+        Run `npm test` _again_
+      </StatusMessage>,
+    );
+
+    const output = lastFrame();
+    expect(output).toContain("Failed in build");
+    expect(output).toContain("Run npm test again");
+    expect(output).not.toContain("`");
+  });
+
+  test("renders unbalanced markup literally", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="warning" markup>
+        2 ** 10 is **1024
+      </StatusMessage>,
+    );
+
+    expect(lastFrame()).toContain("2 ** 10 is **1024");
+  });
+
+  test("parses markup in collapsible details", () => {
+    const { lastFrame } = render(
+      <StatusMessage
+        variant="error"
+        markup
+        collapsible
+        defaultExpanded
+        details={"See `build.log`\nRetry with **--force**"}
+      >
+        Build failed
+      </StatusMessage>,
+    );
+
+    const output = lastFrame();
+    expect(output).toContain("See build.log");
+    expect(output).toContain("Retry with --force");
+  });
+
+  test("strips markup from CI annotations", () => {
+    const { lastFrame } = render(
+      <StatusMessageOutputProvider mode="github">
+        <StatusMessage variant="error" markup>
+          Missing `semver` dependency
+        </StatusMessage>
+      </StatusMessageOutputProvider>,
+    );
+
+    expect(lastFrame()).toContain("::error::Missing semver dependency");
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Test suite for the bundled StatusMessage theme presets.
+ *
+ * Tests for the rendered output of every built-in variant under the
+ * `minimal`, `emoji`, `bracketed` and `highContrast` presets, in
+ * components and in `formatStatusMessage`.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { applyTextStyles } from "tinky";
+import { render } from "tinky-test";
+import {
+  type ComponentTheme,
+  extendTheme,
+  resolveStyles,
+  ThemeProvider,
+} from "tinky-theme";
+import {
+  formatStatusMessage,
+  StatusMessage,
+  StatusMessageOutputProvider,
+  statusMessagePresets,
+  statusMessageTheme,
+  type StatusMessageVariant,
+  TerminalCapabilitiesProvider,
+} from "../src/index.js";
+
+const variants: StatusMessageVariant[] = [
+  "info",
+  "success",
+  "error",
+  "warning",
+  "debug",
+  "tip",
+  "pending",
+];
+
+function renderWithPreset(
+  preset: ComponentTheme,
+  variant: StatusMessageVariant,
+): string {
+  const { lastFrame } = render(
+    <TerminalCapabilitiesProvider capabilities={{ unicode: true }}>
+      <StatusMessageOutputProvider mode="interactive" accessible={false}>
+        <ThemeProvider theme={{ components: { StatusMessage: preset } }}>
+          <StatusMessage variant={variant}>Build step</StatusMessage>
+        </ThemeProvider>
+      </StatusMessageOutputProvider>
+    </TerminalCapabilitiesProvider>,
+  );
+
+  return lastFrame() ?? "";
+}
+
+/**
+ * Options pinning the detected capabilities, like the providers wrapped
+ * around the rendered messages.
+ */
+const options = { color: false, unicode: true, accessible: false, env: {} };
+
+/**
+ * Expects a variant to render the same with a preset in a component and in
+ * `formatStatusMessage`.
+ */
+function expectPreset(
+  preset: ComponentTheme,
+  variant: StatusMessageVariant,
+  expected: string,
+) {
+  expect(renderWithPreset(preset, variant)).toBe(expected);
+  expect(
+    formatStatusMessage(
+      { variant, message: "Build step" },
+      { ...options, theme: preset },
+    ),
+  ).toBe(expected);
+}
+
+describe("minimal preset", () => {
+  for (const variant of variants) {
+    test(`renders ${variant} without an icon`, () => {
+      expectPreset(statusMessagePresets.minimal, variant, "Build step");
+    });
+  }
+
+  test("keeps the variant labels in accessible mode", () => {
+    expect(
+      formatStatusMessage(
+        { variant: "error", message: "Build failed" },
+        {
+          color: false,
+          accessible: true,
+          env: {},
+          theme: statusMessagePresets.minimal,
+        },
+      ),
+    ).toBe("Error: Build failed");
+  });
+
+  test("colors the title and message in the registry color", () => {
+    const theme = {
+      ...statusMessagePresets.minimal,
+      config: {
+        ...statusMessagePresets.minimal.config,
+        variants: { error: { color: "magenta" } },
+      },
+    };
+
+    expect(
+      formatStatusMessage(
+        { variant: "error", title: "Build failed", message: "2 type errors" },
+        { ...options, color: true, theme },
+      ),
+    ).toBe(
+      `${applyTextStyles("Build failed", { color: "magenta", bold: true })}\n` +
+        applyTextStyles("2 type errors", { color: "magenta" }),
+    );
+  });
+
+  test("keeps the color of explicit message styles", () => {
+    const theme = {
+      ...statusMessagePresets.minimal,
+      styles: { message: () => ({ color: "gray" }) },
+    };
+
+    expect(
+      formatStatusMessage(
+        { variant: "error", message: "Build failed" },
+        { ...options, color: true, theme },
+      ),
+    ).toBe(applyTextStyles("Build failed", { color: "gray" }));
+  });
+
+  test("formats messages without an icon", () => {
+    expect(
+      formatStatusMessage(
+        { variant: "error", title: "Build failed", message: "2 type errors" },
+        { ...options, theme: statusMessagePresets.minimal },
+      ),
+    ).toBe("Build failed\n2 type errors");
+  });
+});
+
+describe("emoji preset", () => {
+  const expected: Record<StatusMessageVariant, string> = {
+    info: "ℹ️ Build step",
+    success: "✅ Build step",
+    error: "❌ Build step",
+    warning: "⚠️ Build step",
+    debug: "🐛 Build step",
+    tip: "💡 Build step",
+    pending: "⠋ Build step",
+  };
+
+  for (const variant of variants) {
+    test(`renders ${variant} with its emoji`, () => {
+      expectPreset(statusMessagePresets.emoji, variant, expected[variant]);
+    });
+  }
+
+  test("falls back to ASCII figures", () => {
+    expect(
+      formatStatusMessage(
+        { variant: "success", message: "Deployed" },
+        {
+          color: false,
+          unicode: false,
+          accessible: false,
+          env: {},
+          theme: statusMessagePresets.emoji,
+        },
+      ),
+    ).toBe("√ Deployed");
+  });
+});
+
+describe("bracketed preset", () => {
+  const expected: Record<StatusMessageVariant, string> = {
+    info: "[INFO]    Build step",
+    success: "[SUCCESS] Build step",
+    error: "[ERROR]   Build step",
+    warning: "[WARNING] Build step",
+    debug: "[DEBUG]   Build step",
+    tip: "[TIP]     Build step",
+    pending: "[PENDING] Build step",
+  };
+
+  for (const variant of variants) {
+    test(`renders ${variant} with a fixed-width label`, () => {
+      expectPreset(statusMessagePresets.bracketed, variant, expected[variant]);
+    });
+  }
+
+  test("aligns continuation lines after the label column", () => {
+    expect(
+      formatStatusMessage(
+        { variant: "info", title: "Retrying", message: "attempt 2 of 3" },
+        {
+          color: false,
+          unicode: false,
+          accessible: false,
+          env: {},
+          theme: statusMessagePresets.bracketed,
+        },
+      ),
+    ).toBe("[INFO]    Retrying\n          attempt 2 of 3");
+  });
+});
+
+describe("highContrast preset", () => {
+  const expected: Record<StatusMessageVariant, string> = {
+    info: "ℹ  Build step",
+    success: "✔  Build step",
+    error: "✘ Build step",
+    warning: "⚠  Build step",
+    debug: "● Build step",
+    tip: "★ Build step",
+    pending: "⠋ Build step",
+  };
+
+  for (const variant of variants) {
+    test(`renders ${variant} with its icon`, () => {
+      expectPreset(
+        statusMessagePresets.highContrast,
+        variant,
+        expected[variant],
+      );
+    });
+  }
+
+  test("draws icons inverse", () => {
+    const { styles } = resolveStyles(statusMessagePresets.highContrast, {});
+
+    expect(styles.icon).toEqual({ bold: true, inverse: true });
+    expect(styles.label).toEqual({ bold: true, inverse: true });
+  });
+
+  test("dims no text", () => {
+    const { components } = extendTheme(
+      { components: { StatusMessage: statusMessageTheme as ComponentTheme } },
+      { components: { StatusMessage: statusMessagePresets.highContrast } },
+    );
+    const { styles } = resolveStyles(components.StatusMessage, {
+      variant: "info",
+    });
+
+    for (const [slot, style] of Object.entries(styles)) {
+      expect([slot, (style as { dimColor?: boolean }).dimColor]).toEqual([
+        slot,
+        undefined,
+      ]);
+    }
+  });
+});
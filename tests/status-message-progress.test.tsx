@@ -0,0 +1,200 @@
+/**
+ * Test suite for StatusMessage progress bars.
+ *
+ * Tests for determinate and indeterminate bars, percentages and ETAs, ASCII
+ * fallbacks, accessible mode and the progress helpers.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { render } from "tinky-test";
+import {
+  StatusMessage,
+  StatusMessageList,
+  StatusMessageOutputProvider,
+  StatusMessageProvider,
+  StatusMessageTimestampProvider,
+  TerminalCapabilitiesProvider,
+  useStatusMessages,
+  type StatusMessagesContextValue,
+} from "../src/index.js";
+import {
+  countIndeterminateFrames,
+  drawIndeterminateBar,
+  drawProgressBar,
+  formatDuration,
+  resolveProgressFraction,
+} from "../src/utils/progress.js";
+
+const tick = (milliseconds: number) =>
+  new Promise((resolve) => setTimeout(resolve, milliseconds));
+
+/**
+ * Waits until no frame has been rendered for a while, so that queue updates
+ * are rendered.
+ */
+async function settle(frames: readonly string[]) {
+  let count;
+  do {
+    count = frames.length;
+    await tick(100);
+  } while (frames.length !== count);
+}
+
+describe("StatusMessage progress", () => {
+  test("renders a bar and percentage after the message", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="info" progress={0.42}>
+        Uploading artifacts
+      </StatusMessage>,
+    );
+
+    const output = lastFrame() ?? "";
+    expect(output).toContain("Uploading artifacts");
+    expect(output).toContain("█");
+    expect(output).toContain("░");
+    expect(output).toContain("42%");
+    expect(output.indexOf("42%")).toBeGreaterThan(
+      output.indexOf("Uploading artifacts"),
+    );
+  });
+
+  test("accepts current and total", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="info" progress={{ current: 3, total: 4 }}>
+        Uploading
+      </StatusMessage>,
+    );
+
+    expect(lastFrame()).toContain("75%");
+  });
+
+  test("falls back to ASCII characters", () => {
+    const { lastFrame } = render(
+      <TerminalCapabilitiesProvider capabilities={{ unicode: false }}>
+        <StatusMessage variant="info" progress={0.5}>
+          Uploading
+        </StatusMessage>
+      </TerminalCapabilitiesProvider>,
+    );
+
+    const output = lastFrame() ?? "";
+    expect(output).toContain("[#");
+    expect(output).toContain("-]");
+    expect(output).not.toContain("█");
+  });
+
+  test("renders the ETA from the rate of progress", async () => {
+    let now = 0;
+    const queue: { current?: StatusMessagesContextValue } = {};
+
+    function Capture() {
+      queue.current = useStatusMessages();
+      return null;
+    }
+
+    const { lastFrame, frames } = render(
+      <StatusMessageTimestampProvider clock={() => now}>
+        <StatusMessageProvider>
+          <Capture />
+          <StatusMessageList />
+        </StatusMessageProvider>
+      </StatusMessageTimestampProvider>,
+    );
+    const messages = queue.current as StatusMessagesContextValue;
+
+    const id = messages.push({
+      variant: "info",
+      message: "Uploading",
+      progress: 0,
+    });
+    await settle(frames);
+    now = 10_000;
+    messages.update(id, { progress: 0.5 });
+    await settle(frames);
+
+    expect(lastFrame()).toContain("50%");
+    expect(lastFrame()).toContain("10s left");
+  });
+
+  test("animates indeterminate progress", async () => {
+    const { frames, unmount } = render(
+      <StatusMessage variant="pending" progress="indeterminate">
+        Waiting for runner
+      </StatusMessage>,
+    );
+
+    await tick(300);
+    unmount();
+
+    const bars = new Set(frames.map((frame) => frame.replace(/[^█░]/g, "")));
+    bars.delete("");
+    expect(bars.size).toBeGreaterThan(1);
+  });
+
+  test("renders the label only in accessible mode", () => {
+    const { lastFrame } = render(
+      <StatusMessageOutputProvider accessible>
+        <StatusMessage variant="info" progress={0.25}>
+          Uploading
+        </StatusMessage>
+      </StatusMessageOutputProvider>,
+    );
+
+    expect(lastFrame()).toContain("25%");
+    expect(lastFrame()).not.toContain("█");
+  });
+
+  test("renders no bar without progress", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="info">Uploading</StatusMessage>,
+    );
+
+    expect(lastFrame()).not.toContain("%");
+  });
+});
+
+describe("progress helpers", () => {
+  test.each([
+    [0.5, 0.5],
+    [-1, 0],
+    [2, 1],
+    [Number.NaN, 0],
+    [{ current: 1, total: 4 }, 0.25],
+    [{ current: 1, total: 0 }, 0],
+  ] as const)("resolves %p to %p", (progress, fraction) => {
+    expect(resolveProgressFraction(progress)).toBe(fraction);
+  });
+
+  test("resolves indeterminate progress to undefined", () => {
+    expect(resolveProgressFraction("indeterminate")).toBeUndefined();
+  });
+
+  test("draws filled and empty cells", () => {
+    expect(drawProgressBar(0.5, 10, false)).toEqual(["#####", "-----"]);
+    expect(drawProgressBar(1, 4, true)).toEqual(["████", ""]);
+  });
+
+  test("bounces the indeterminate block within the bar", () => {
+    const width = 8;
+    const offsets = Array.from(
+      { length: countIndeterminateFrames(width) },
+      (_, frame) => drawIndeterminateBar(frame, width, false)[0].length,
+    );
+
+    expect(offsets).toEqual([0, 1, 2, 3, 4, 5, 4, 3, 2, 1]);
+    for (let frame = 0; frame < offsets.length; frame++) {
+      expect(drawIndeterminateBar(frame, width, false).join("")).toHaveLength(
+        width,
+      );
+    }
+  });
+
+  test.each([
+    [0, "0s"],
+    [12_300, "13s"],
+    [65_000, "1m 05s"],
+    [3_723_000, "1h 02m"],
+  ])("formats %i ms as %s", (milliseconds, expected) => {
+    expect(formatDuration(milliseconds)).toBe(expected);
+  });
+});
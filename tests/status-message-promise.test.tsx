@@ -0,0 +1,159 @@
+/**
+ * Test suite for promise-bound StatusMessage components.
+ *
+ * Tests for the pending variant spinner and the transitions of a
+ * StatusMessage bound to a promise into success or error.
+ */
+
+import { describe, test, expect, jest } from "bun:test";
+import { render } from "tinky-test";
+import { StatusMessage } from "../src/index.js";
+
+const tick = (milliseconds = 20) =>
+  new Promise((resolve) => setTimeout(resolve, milliseconds));
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((onResolve, onReject) => {
+    resolve = onResolve;
+    reject = onReject;
+  });
+
+  return { promise, resolve, reject };
+}
+
+describe("StatusMessage pending variant", () => {
+  test("renders the first spinner frame", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="pending">Installing</StatusMessage>,
+    );
+
+    expect(lastFrame()).toContain("⠋");
+    expect(lastFrame()).toContain("Installing");
+  });
+
+  test("animates the spinner", async () => {
+    const { frames, unmount } = render(
+      <StatusMessage variant="pending">Installing</StatusMessage>,
+    );
+
+    await tick(200);
+    unmount();
+
+    expect(frames.join("\n")).toContain("⠙ Installing");
+  });
+});
+
+describe("StatusMessage promise", () => {
+  test("renders pending content while the promise runs", () => {
+    const { promise } = deferred<string>();
+    const { lastFrame } = render(
+      <StatusMessage promise={promise} pending="Deploying…" success="Done" />,
+    );
+
+    expect(lastFrame()).toContain("⠋");
+    expect(lastFrame()).toContain("Deploying…");
+  });
+
+  test("turns into success when the promise is fulfilled", async () => {
+    const { promise, resolve } = deferred<string>();
+    const { lastFrame } = render(
+      <StatusMessage
+        promise={promise}
+        pending="Deploying…"
+        success={(url) => `Deployed to ${url}`}
+      />,
+    );
+
+    resolve("https://example.com");
+    await tick();
+
+    expect(lastFrame()).toContain("✔");
+    expect(lastFrame()).toContain("Deployed to https://example.com");
+  });
+
+  test("turns into error when the promise is rejected", async () => {
+    const { promise, reject } = deferred<string>();
+    const { lastFrame } = render(
+      <StatusMessage
+        promise={promise}
+        pending="Deploying…"
+        error={(error) => `Deploy failed: ${(error as Error).message}`}
+      />,
+    );
+
+    reject(new Error("timeout"));
+    await tick();
+
+    expect(lastFrame()).toContain("✘");
+    expect(lastFrame()).toContain("Deploy failed: timeout");
+  });
+
+  test("settles without warnings when pending content is omitted", async () => {
+    const { promise, resolve } = deferred<number>();
+    const errors = jest.spyOn(console, "error");
+    const { lastFrame } = render(
+      <StatusMessage promise={promise} success="Deployed" />,
+    );
+
+    resolve(1);
+    await tick(100);
+
+    expect(lastFrame()).toContain("Deployed");
+    expect(errors).not.toHaveBeenCalled();
+    errors.mockRestore();
+  });
+
+  test("accepts static success and error content", async () => {
+    const { promise, resolve } = deferred<number>();
+    const { lastFrame } = render(
+      <StatusMessage promise={promise} success="Deployed" error="Failed" />,
+    );
+
+    resolve(1);
+    await tick();
+
+    expect(lastFrame()).toContain("Deployed");
+  });
+
+  test("ignores a promise replaced before it settles", async () => {
+    const first = deferred<string>();
+    const second = deferred<string>();
+    const { lastFrame, rerender } = render(
+      <StatusMessage
+        promise={first.promise}
+        pending="Waiting"
+        success={(value) => value}
+      />,
+    );
+
+    rerender(
+      <StatusMessage
+        promise={second.promise}
+        pending="Waiting"
+        success={(value) => value}
+      />,
+    );
+    first.resolve("stale");
+    await tick();
+
+    expect(lastFrame()).toContain("Waiting");
+    expect(lastFrame()).not.toContain("stale");
+  });
+
+  test("does not update after unmount", async () => {
+    const { promise, resolve } = deferred<string>();
+    const errors = jest.spyOn(console, "error");
+    const { unmount } = render(
+      <StatusMessage promise={promise} success="Deployed" />,
+    );
+
+    unmount();
+    resolve("done");
+    await tick();
+
+    expect(errors).not.toHaveBeenCalled();
+    errors.mockRestore();
+  });
+});
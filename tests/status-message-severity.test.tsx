@@ -0,0 +1,233 @@
+/**
+ * Test suite for StatusMessage severity filtering.
+ *
+ * Tests for the minimum severity of StatusMessageSeverityProvider, subtree
+ * overrides, custom variant levels, the hidden message summary and the
+ * severity level helpers.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { render } from "tinky-test";
+import { ThemeProvider } from "tinky-theme";
+import {
+  StatusMessage,
+  StatusMessageGroup,
+  StatusMessageSeverityProvider,
+  statusMessageVariants,
+} from "../src/index.js";
+import {
+  resolveSeverityLevel,
+  resolveSeverityThreshold,
+} from "../src/utils/variants.js";
+
+declare module "../src/index.js" {
+  interface StatusMessageVariantRegistry {
+    notice: true;
+  }
+}
+
+/**
+ * Waits until no frame has been rendered for a while, so that hidden
+ * messages are counted in the summary.
+ */
+async function settle(frames: readonly string[]) {
+  let count;
+  do {
+    count = frames.length;
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  } while (frames.length !== count);
+}
+
+function Messages() {
+  return (
+    <>
+      <StatusMessage variant="debug">Resolved 42 modules</StatusMessage>
+      <StatusMessage variant="info">Building</StatusMessage>
+      <StatusMessage variant="warning">Deprecated flag</StatusMessage>
+      <StatusMessage variant="error">Build failed</StatusMessage>
+    </>
+  );
+}
+
+describe("StatusMessageSeverityProvider", () => {
+  test("renders every message without a provider", () => {
+    const { lastFrame } = render(<Messages />);
+
+    expect(lastFrame()).toContain("Resolved 42 modules");
+    expect(lastFrame()).toContain("Build failed");
+  });
+
+  test("hides messages below the minimum severity", () => {
+    const { lastFrame } = render(
+      <StatusMessageSeverityProvider minSeverity="warning">
+        <Messages />
+      </StatusMessageSeverityProvider>,
+    );
+
+    const output = lastFrame();
+    expect(output).not.toContain("Resolved 42 modules");
+    expect(output).not.toContain("Building");
+    expect(output).toContain("Deprecated flag");
+    expect(output).toContain("Build failed");
+  });
+
+  test("accepts numeric levels", () => {
+    const { lastFrame } = render(
+      <StatusMessageSeverityProvider minSeverity={15}>
+        <Messages />
+      </StatusMessageSeverityProvider>,
+    );
+
+    expect(lastFrame()).not.toContain("Resolved 42 modules");
+    expect(lastFrame()).toContain("Building");
+  });
+
+  test("overrides the threshold for a subtree", () => {
+    const { lastFrame } = render(
+      <StatusMessageSeverityProvider minSeverity="error">
+        <StatusMessage variant="warning">Outer warning</StatusMessage>
+        <StatusMessageSeverityProvider minSeverity="debug">
+          <StatusMessage variant="debug">Inner debug</StatusMessage>
+        </StatusMessageSeverityProvider>
+      </StatusMessageSeverityProvider>,
+    );
+
+    expect(lastFrame()).not.toContain("Outer warning");
+    expect(lastFrame()).toContain("Inner debug");
+  });
+
+  test("inherits the threshold when minSeverity is omitted", () => {
+    const { lastFrame } = render(
+      <StatusMessageSeverityProvider minSeverity="error">
+        <StatusMessageSeverityProvider>
+          <StatusMessage variant="warning">Inner warning</StatusMessage>
+        </StatusMessageSeverityProvider>
+      </StatusMessageSeverityProvider>,
+    );
+
+    expect(lastFrame()).not.toContain("Inner warning");
+  });
+
+  test("renders the number of hidden messages", async () => {
+    const { lastFrame, frames } = render(
+      <StatusMessageSeverityProvider minSeverity="warning" showHiddenCount>
+        <Messages />
+      </StatusMessageSeverityProvider>,
+    );
+    await settle(frames);
+
+    expect(lastFrame()).toContain("2 messages hidden");
+  });
+
+  test("uses the singular for one hidden message", async () => {
+    const { lastFrame, frames } = render(
+      <StatusMessageSeverityProvider minSeverity="info" showHiddenCount>
+        <Messages />
+      </StatusMessageSeverityProvider>,
+    );
+    await settle(frames);
+
+    expect(lastFrame()).toContain("1 message hidden");
+  });
+
+  test("renders no summary when nothing is hidden", async () => {
+    const { lastFrame, frames } = render(
+      <StatusMessageSeverityProvider minSeverity="debug" showHiddenCount>
+        <Messages />
+      </StatusMessageSeverityProvider>,
+    );
+    await settle(frames);
+
+    expect(lastFrame()).not.toContain("hidden");
+  });
+
+  test("counts messages hidden in nested providers without a summary", async () => {
+    const { lastFrame, frames } = render(
+      <StatusMessageSeverityProvider minSeverity="info" showHiddenCount>
+        <StatusMessage variant="debug">Outer debug</StatusMessage>
+        <StatusMessageSeverityProvider minSeverity="error">
+          <StatusMessage variant="warning">Inner warning</StatusMessage>
+        </StatusMessageSeverityProvider>
+      </StatusMessageSeverityProvider>,
+    );
+    await settle(frames);
+
+    expect(lastFrame()).toContain("2 messages hidden");
+  });
+
+  test("filters custom variants by their level", () => {
+    const { lastFrame } = render(
+      <ThemeProvider
+        theme={{
+          components: {
+            StatusMessage: {
+              config: {
+                variants: {
+                  ...statusMessageVariants,
+                  notice: {
+                    color: "cyan",
+                    icon: "info",
+                    severity: "info",
+                    level: 35,
+                    label: "Notice",
+                  },
+                },
+              },
+            },
+          },
+        }}
+      >
+        <StatusMessageSeverityProvider minSeverity="success">
+          <StatusMessage variant="notice">Update available</StatusMessage>
+          <StatusMessage variant="info">Building</StatusMessage>
+        </StatusMessageSeverityProvider>
+      </ThemeProvider>,
+    );
+
+    expect(lastFrame()).toContain("Update available");
+    expect(lastFrame()).not.toContain("Building");
+  });
+
+  test("leaves hidden messages out of group summaries", () => {
+    const { lastFrame } = render(
+      <StatusMessageSeverityProvider minSeverity="warning">
+        <StatusMessageGroup>
+          <StatusMessage variant="info">Building</StatusMessage>
+          <StatusMessage variant="error">Build failed</StatusMessage>
+        </StatusMessageGroup>
+      </StatusMessageSeverityProvider>,
+    );
+
+    expect(lastFrame()).toContain("1 error");
+    expect(lastFrame()).not.toContain("info");
+  });
+});
+
+describe("severity levels", () => {
+  test("built-in variants are ordered from debug to error", () => {
+    const levels = ["debug", "info", "success", "warning", "error"].map(
+      (variant) =>
+        resolveSeverityLevel(
+          statusMessageVariants[variant as keyof typeof statusMessageVariants],
+        ),
+    );
+
+    expect(levels).toEqual([...levels].sort((a, b) => a - b));
+    expect(new Set(levels).size).toBe(levels.length);
+  });
+
+  test("falls back to the level of the semantic severity", () => {
+    expect(
+      resolveSeverityLevel({
+        color: "cyan",
+        icon: "info",
+        severity: "warning",
+        label: "Notice",
+      }),
+    ).toBe(resolveSeverityThreshold("warning"));
+  });
+
+  test("resolves numeric thresholds as they are", () => {
+    expect(resolveSeverityThreshold(25)).toBe(25);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Test suite for StatusMessage title, body and details slots.
+ *
+ * Tests for StatusMessage component focusing on the optional title and
+ * details slots and their placement relative to the icon and message body.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { render } from "tinky-test";
+import { StatusMessage } from "../src/index.js";
+
+describe("StatusMessage slots", () => {
+  test("renders title on the icon row", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="error" title="Build failed">
+        2 type errors
+      </StatusMessage>,
+    );
+
+    const lines = (lastFrame() ?? "").split("\n");
+    expect(lines[0]).toContain("✘");
+    expect(lines[0]).toContain("Build failed");
+    expect(lines[1]).toContain("2 type errors");
+  });
+
+  test("renders message on the icon row without a title", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="success">Deployed</StatusMessage>,
+    );
+
+    const lines = (lastFrame() ?? "").split("\n");
+    expect(lines[0]).toContain("✔");
+    expect(lines[0]).toContain("Deployed");
+  });
+
+  test("renders details indented under the message", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="warning" details="Run with --force to skip">
+        Uncommitted changes
+      </StatusMessage>,
+    );
+
+    const lines = (lastFrame() ?? "").split("\n");
+    const messageColumn = lines[0].indexOf("Uncommitted changes");
+    expect(lines[1].indexOf("Run with --force to skip")).toBe(
+      messageColumn + 2,
+    );
+  });
+
+  test("renders title, message and details together", () => {
+    const { lastFrame } = render(
+      <StatusMessage
+        variant="info"
+        title="Update available"
+        details="npm install -g my-cli"
+      >
+        Version 2.0.0 is out
+      </StatusMessage>,
+    );
+
+    const output = lastFrame();
+    expect(output).toContain("Update available");
+    expect(output).toContain("Version 2.0.0 is out");
+    expect(output).toContain("npm install -g my-cli");
+  });
+
+  test("renders title without a message body", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="error" title="Build failed" />,
+    );
+
+    const output = lastFrame();
+    expect(output).toContain("✘");
+    expect(output).toContain("Build failed");
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Test suite for StatusMessage timestamps.
+ *
+ * Tests for absolute and relative timestamps, the injectable clock, the
+ * theme-selected position and the time formatting helpers.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { render } from "tinky-test";
+import { ThemeProvider } from "tinky-theme";
+import {
+  formatRelativeTime,
+  StatusMessage,
+  StatusMessageTimestampProvider,
+} from "../src/index.js";
+
+const startedAt = new Date(2024, 0, 1, 14, 3, 12).getTime();
+
+/**
+ * Waits until `condition` holds, for at most one second.
+ */
+async function waitFor(condition: () => boolean) {
+  for (let waited = 0; waited < 1000 && !condition(); waited += 10) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe("StatusMessage timestamp", () => {
+  test("renders an absolute time of day by default", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="success" timestamp={startedAt}>
+        Deployed
+      </StatusMessage>,
+    );
+
+    expect(lastFrame()).toContain("Deployed");
+    expect(lastFrame()).toContain("14:03:12");
+  });
+
+  test("renders nothing without a timestamp", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="success">Deployed</StatusMessage>,
+    );
+
+    expect(lastFrame()).not.toMatch(/\d{2}:\d{2}:\d{2}/);
+  });
+
+  test("uses the absolute formatter of the provider", () => {
+    const { lastFrame } = render(
+      <StatusMessageTimestampProvider
+        formatTime={(time) => time.toISOString().slice(0, 10)}
+      >
+        <StatusMessage variant="info" timestamp={Date.UTC(2024, 5, 30, 12)}>
+          Synced
+        </StatusMessage>
+      </StatusMessageTimestampProvider>,
+    );
+
+    expect(lastFrame()).toContain("2024-06-30");
+  });
+
+  test("renders relative times from the injected clock", () => {
+    const { lastFrame } = render(
+      <StatusMessageTimestampProvider
+        format="relative"
+        clock={() => startedAt + 2 * 60_000}
+      >
+        <StatusMessage variant="info" timestamp={startedAt}>
+          Synced
+        </StatusMessage>
+      </StatusMessageTimestampProvider>,
+    );
+
+    expect(lastFrame()).toContain("2m ago");
+  });
+
+  test("re-renders relative times as the clock advances", async () => {
+    let now = startedAt;
+    const { lastFrame } = render(
+      <StatusMessageTimestampProvider
+        format="relative"
+        clock={() => now}
+        refreshInterval={10}
+      >
+        <StatusMessage variant="info" timestamp={startedAt}>
+          Synced
+        </StatusMessage>
+      </StatusMessageTimestampProvider>,
+    );
+
+    expect(lastFrame()).toContain("just now");
+
+    now = startedAt + 5000;
+    await waitFor(() => lastFrame()?.includes("5s ago") ?? false);
+
+    expect(lastFrame()).toContain("5s ago");
+  });
+
+  test("places the timestamp before the icon per theme", () => {
+    const { lastFrame } = render(
+      <ThemeProvider
+        theme={{
+          components: {
+            StatusMessage: { config: { timestampPosition: "before" } },
+          },
+        }}
+      >
+        <StatusMessage variant="success" timestamp={startedAt}>
+          Deployed
+        </StatusMessage>
+      </ThemeProvider>,
+    );
+
+    const output = lastFrame() ?? "";
+    expect(output.indexOf("14:03:12")).toBeLessThan(output.indexOf("✔"));
+  });
+
+  test("places the timestamp after the message by default", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="success" timestamp={startedAt}>
+        Deployed
+      </StatusMessage>,
+    );
+
+    const output = lastFrame() ?? "";
+    expect(output.indexOf("14:03:12")).toBeGreaterThan(
+      output.indexOf("Deployed"),
+    );
+  });
+});
+
+describe("formatRelativeTime", () => {
+  test.each([
+    [0, "just now"],
+    [999, "just now"],
+    [-5000, "just now"],
+    [1000, "1s ago"],
+    [59_000, "59s ago"],
+    [60_000, "1m ago"],
+    [150_000, "2m ago"],
+    [3_600_000, "1h ago"],
+    [2 * 86_400_000, "2d ago"],
+  ])("%i ms elapsed renders %s", (elapsed, expected) => {
+    expect(formatRelativeTime(startedAt, startedAt + elapsed)).toBe(expected);
+  });
+});
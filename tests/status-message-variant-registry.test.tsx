@@ -0,0 +1,232 @@
+/**
+ * Test suite for the StatusMessage variant registry.
+ *
+ * Tests for built-in variant definitions, custom variants declared through
+ * the theme and module augmentation, and registry resolution helpers.
+ */
+
+import { afterEach, describe, test, expect, jest } from "bun:test";
+import { act } from "react";
+import { render } from "tinky-test";
+import { ThemeProvider } from "tinky-theme";
+import {
+  formatStatusMessage,
+  StatusMessage,
+  statusMessageVariants,
+} from "../src/index.js";
+import {
+  replaceMergedArrays,
+  resolveThemeConfig,
+  resolveVariant,
+  resolveVariantFrames,
+} from "../src/utils/variants.js";
+
+/**
+ * Global through which React learns that updates are wrapped in `act`.
+ */
+const actEnvironment = globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean };
+
+/**
+ * Advances the fake clock inside `act`, which runs the renders and effects
+ * the elapsed timers triggered before returning.
+ */
+function advance(milliseconds: number) {
+  act(() => {
+    jest.advanceTimersByTime(milliseconds);
+  });
+}
+
+declare module "../src/index.js" {
+  interface StatusMessageVariantRegistry {
+    deploy: true;
+  }
+}
+
+describe("StatusMessage variant registry", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+    delete actEnvironment.IS_REACT_ACT_ENVIRONMENT;
+  });
+
+  test("built-in variants declare color, icon and severity", () => {
+    for (const definition of Object.values(statusMessageVariants)) {
+      expect(definition.color).toBeDefined();
+      expect(definition.icon).toBeDefined();
+      expect(definition.severity).toBeDefined();
+    }
+  });
+
+  test("debug variant renders with bullet icon", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="debug">Cache hit</StatusMessage>,
+    );
+
+    const output = lastFrame();
+    expect(output).toContain("●");
+    expect(output).toContain("Cache hit");
+  });
+
+  test("tip variant renders with star icon", () => {
+    const { lastFrame } = render(
+      <StatusMessage variant="tip">Use --watch to rebuild</StatusMessage>,
+    );
+
+    const output = lastFrame();
+    expect(output).toContain("★");
+    expect(output).toContain("Use --watch to rebuild");
+  });
+
+  test("custom variant is resolved from the theme registry", () => {
+    const { lastFrame } = render(
+      <ThemeProvider
+        theme={{
+          components: {
+            StatusMessage: {
+              config: {
+                variants: {
+                  deploy: {
+                    color: "magenta",
+                    icon: { unicode: "🚀", ascii: ">" },
+                    severity: "info",
+                  },
+                },
+              },
+            },
+          },
+        }}
+      >
+        <StatusMessage variant="deploy">Deploying</StatusMessage>
+      </ThemeProvider>,
+    );
+
+    const output = lastFrame();
+    expect(output).toContain("🚀");
+    expect(output).toContain("Deploying");
+  });
+
+  test("theme overrides keep the built-in variants", () => {
+    const { lastFrame } = render(
+      <ThemeProvider
+        theme={{
+          components: {
+            StatusMessage: {
+              config: {
+                variants: {
+                  deploy: { color: "magenta", icon: "play", severity: "info" },
+                },
+              },
+            },
+          },
+        }}
+      >
+        <StatusMessage variant="success">Deployed</StatusMessage>
+      </ThemeProvider>,
+    );
+
+    expect(lastFrame()).toContain("✔");
+  });
+
+  test("spinner overrides replace the default frames", () => {
+    jest.useFakeTimers();
+    actEnvironment.IS_REACT_ACT_ENVIRONMENT = true;
+
+    let rendered!: ReturnType<typeof render>;
+    act(() => {
+      rendered = render(
+        <ThemeProvider
+          theme={{
+            components: {
+              StatusMessage: {
+                config: {
+                  variants: {
+                    pending: {
+                      icon: { unicode: ["◐", "◓"], ascii: ["-", "|"] },
+                    },
+                  },
+                },
+              },
+            },
+          }}
+        >
+          <StatusMessage variant="pending">Installing</StatusMessage>
+        </ThemeProvider>,
+      );
+    });
+    for (let step = 0; step < 4; step++) {
+      advance(80);
+    }
+    act(() => {
+      rendered.unmount();
+    });
+
+    const icons = new Set(
+      rendered.frames
+        .filter((frame) => frame.includes("Installing"))
+        .map((frame) => frame.split(" ")[0]),
+    );
+    expect([...icons].sort()).toEqual(["◐", "◓"]);
+  });
+
+  test("formatStatusMessage replaces the default frames", () => {
+    expect(
+      formatStatusMessage(
+        { variant: "pending", message: "Installing" },
+        {
+          color: false,
+          unicode: true,
+          accessible: false,
+          theme: {
+            config: {
+              variants: { pending: { icon: { unicode: ["◐", "◓"] } } },
+            },
+          },
+        },
+      ),
+    ).toBe("◐ Installing");
+  });
+
+  test("replaceMergedArrays keeps override arrays whole", () => {
+    const merged = {
+      icon: { unicode: ["a", "b", "⠹", "⠸"], ascii: ["-", "\\"] },
+      color: "magenta",
+    };
+
+    expect(
+      replaceMergedArrays(merged, { icon: { unicode: ["a", "b"] } }),
+    ).toEqual({
+      icon: { unicode: ["a", "b"], ascii: ["-", "\\"] },
+      color: "magenta",
+    });
+  });
+
+  test("resolveThemeConfig supports config functions", () => {
+    const config = resolveThemeConfig(
+      (props: { variant: string }) => ({
+        variants: {
+          [props.variant]: statusMessageVariants.tip,
+        },
+      }),
+      { variant: "deploy" },
+    );
+
+    expect(config.variants.deploy).toEqual(statusMessageVariants.tip);
+  });
+
+  test("resolveVariant falls back to info for unknown variants", () => {
+    expect(resolveVariant({}, "deploy")).toEqual(statusMessageVariants.info);
+  });
+
+  test("resolveVariantFrames picks glyphs by unicode support", () => {
+    const icon = { unicode: "🚀", ascii: ">" };
+
+    expect(resolveVariantFrames(icon, {} as never, true)).toEqual(["🚀"]);
+    expect(resolveVariantFrames(icon, {} as never, false)).toEqual([">"]);
+  });
+
+  test("resolveVariantFrames returns animation frames", () => {
+    const icon = { unicode: ["◐", "◓"], ascii: ["-", "|"], interval: 100 };
+
+    expect(resolveVariantFrames(icon, {} as never, true)).toEqual(["◐", "◓"]);
+    expect(resolveVariantFrames(icon, {} as never, false)).toEqual(["-", "|"]);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Test suite for StatusMessage wrapping modes.
+ *
+ * Tests for hanging-indent wrapping, truncation, line limits, theme
+ * defaults, and the width measurement and layout helpers.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { Box } from "tinky";
+import { render } from "tinky-test";
+import { ThemeProvider } from "tinky-theme";
+import {
+  formatStatusMessage,
+  measureText,
+  StatusMessage,
+  type StatusMessageProps,
+} from "../src/index.js";
+import { layoutText } from "../src/utils/wrap.js";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+const longMessage =
+  "Uploading build artifacts to the release bucket in eu-west-1";
+
+function renderInWidth(width: number, props: Partial<StatusMessageProps>) {
+  return render(
+    <Box width={width}>
+      <StatusMessage variant="info" {...props}>
+        {props.children ?? longMessage}
+      </StatusMessage>
+    </Box>,
+  );
+}
+
+function lines(text: string, options: Parameters<typeof layoutText>[1]) {
+  return layoutText([{ type: "text", text }], options).map((line) =>
+    line.map((span) => span.text).join(""),
+  );
+}
+
+describe("StatusMessage wrap", () => {
+  test("aligns continuation lines under the text", () => {
+    const { lastFrame } = renderInWidth(24, {});
+
+    const [first = "", ...rest] = (lastFrame() ?? "").split("\n");
+    expect(first).toMatch(/^ℹ +Uploading/);
+    expect(rest.length).toBeGreaterThan(0);
+    for (const line of rest) {
+      expect(line.startsWith("  ")).toBe(true);
+    }
+  });
+
+  test("truncates to one line at the end", async () => {
+    const { lastFrame } = renderInWidth(24, { wrap: "truncate-end" });
+    await tick();
+
+    const output = lastFrame() ?? "";
+    expect(output.split("\n")).toHaveLength(1);
+    expect(output).toMatch(/^ℹ +Uploading/);
+    expect(output).toContain("…");
+  });
+
+  test("truncates to one line in the middle", async () => {
+    const { lastFrame } = renderInWidth(24, { wrap: "truncate-middle" });
+    await tick();
+
+    const output = lastFrame() ?? "";
+    expect(output.split("\n")).toHaveLength(1);
+    expect(output).toContain("…");
+    expect(output).toContain("west-1");
+  });
+
+  test("limits wrapped messages to maxLines", async () => {
+    const { lastFrame } = renderInWidth(24, { maxLines: 2 });
+    await tick();
+
+    const output = lastFrame() ?? "";
+    expect(output.split("\n")).toHaveLength(2);
+    expect(output.trimEnd().endsWith("…")).toBe(true);
+  });
+
+  test("takes defaults from styles.message", async () => {
+    const { lastFrame } = render(
+      <ThemeProvider
+        theme={{
+          components: {
+            StatusMessage: {
+              styles: { message: () => ({ wrap: "truncate-end" }) },
+            },
+          },
+        }}
+      >
+        <Box width={24}>
+          <StatusMessage variant="info">{longMessage}</StatusMessage>
+        </Box>
+      </ThemeProvider>,
+    );
+    await tick();
+
+    expect((lastFrame() ?? "").split("\n")).toHaveLength(1);
+  });
+});
+
+describe("layoutText", () => {
+  test("wraps between words", () => {
+    expect(lines("aa bb cc", { width: 5 })).toEqual(["aa bb", "cc"]);
+  });
+
+  test("counts wide CJK characters as two columns", () => {
+    expect(lines("ビルドが完了しました", { width: 8 })).toEqual([
+      "ビルドが",
+      "完了しま",
+      "した",
+    ]);
+  });
+
+  test("counts emoji with the given width", () => {
+    expect(lines("🚀🚀🚀", { width: 4 })).toEqual(["🚀🚀", "🚀"]);
+    expect(lines("🚀🚀🚀", { width: 4, emojiWidth: 1 })).toEqual(["🚀🚀🚀"]);
+  });
+
+  test("truncates at the end without splitting wide characters", () => {
+    expect(lines("完了しました", { width: 6, wrap: "truncate-end" })).toEqual([
+      "完了…",
+    ]);
+  });
+
+  test("truncates in the middle", () => {
+    expect(
+      lines("Uploading build artifacts", {
+        width: 12,
+        wrap: "truncate-middle",
+      }),
+    ).toEqual(["Upload…facts"]);
+  });
+
+  test("keeps text that fits", () => {
+    expect(lines("Done", { width: 10, wrap: "truncate-end" })).toEqual([
+      "Done",
+    ]);
+  });
+
+  test("joins line breaks when truncating", () => {
+    expect(lines("a\nb", { width: 10, wrap: "truncate-end" })).toEqual(["a b"]);
+  });
+
+  test("ends the last of maxLines with the ellipsis", () => {
+    expect(lines("aa bb cc dd ee", { width: 5, maxLines: 2 })).toEqual([
+      "aa bb",
+      "cc d…",
+    ]);
+  });
+
+  test("uses the given ellipsis", () => {
+    expect(
+      lines("abcdefgh", { width: 6, wrap: "truncate-end", ellipsis: "..." }),
+    ).toEqual(["abc..."]);
+  });
+
+  test("keeps markup spans across lines", () => {
+    expect(
+      layoutText(
+        [
+          { type: "text", text: "Run " },
+          { type: "code", text: "npm test" },
+        ],
+        { width: 8 },
+      ),
+    ).toEqual([
+      [
+        { type: "text", text: "Run " },
+        { type: "code", text: "npm" },
+      ],
+      [{ type: "code", text: "test" }],
+    ]);
+  });
+});
+
+describe("measureText", () => {
+  test.each([
+    ["abc", 3],
+    ["ビルド", 6],
+    ["한국어", 6],
+    ["🚀", 2],
+    ["👩‍💻", 2],
+    ["🇯🇵", 2],
+    ["⚠️", 2],
+    ["✔", 1],
+    ["é", 1],
+    ["", 0],
+  ])("measures %s as %i columns", (text, width) => {
+    expect(measureText(text)).toBe(width);
+  });
+});
+
+describe("formatStatusMessage wrap", () => {
+  test("truncates the message to the width", () => {
+    expect(
+      formatStatusMessage(
+        {
+          variant: "info",
+          message: "Uploading build artifacts",
+          wrap: "truncate-end",
+        },
+        { color: false, unicode: true, accessible: false, width: 15 },
+      ),
+    ).toBe("ℹ  Uploading b…");
+  });
+
+  test("aligns wrapped CJK text under the message", () => {
+    expect(
+      formatStatusMessage(
+        { variant: "info", message: "ビルドが完了しました" },
+        { color: false, unicode: true, accessible: false, width: 11 },
+      ),
+    ).toBe("ℹ  ビルドが\n   完了しま\n   した");
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Test suite for terminal capability detection.
+ *
+ * Table-driven tests for detectTerminalCapabilities over environment and
+ * platform combinations, the isUnicodeSupported compatibility wrapper and
+ * StatusMessage rendering inside TerminalCapabilitiesProvider.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { render } from "tinky-test";
+import {
+  detectTerminalCapabilities,
+  isUnicodeSupported,
+  StatusMessage,
+  TerminalCapabilitiesProvider,
+  type TerminalCapabilities,
+} from "../src/index.js";
+
+type Env = Record<string, string | undefined>;
+
+describe("detectTerminalCapabilities", () => {
+  describe("unicode", () => {
+    const cases: [string, Env, string, boolean][] = [
+      ["unset locale on linux", {}, "linux", true],
+      ["UTF-8 LANG", { LANG: "en_US.UTF-8" }, "linux", true],
+      ["utf8 LC_ALL", { LC_ALL: "de_DE.utf8" }, "linux", true],
+      ["C locale", { LANG: "C" }, "linux", false],
+      [
+        "LC_ALL overrides LANG",
+        { LC_ALL: "C", LANG: "en_US.UTF-8" },
+        "linux",
+        false,
+      ],
+      [
+        "LC_CTYPE overrides LANG",
+        { LC_CTYPE: "en_US.UTF-8", LANG: "C" },
+        "darwin",
+        true,
+      ],
+      ["linux console", { TERM: "linux" }, "linux", false],
+      ["Windows console", {}, "win32", false],
+      ["Windows Terminal", { WT_SESSION: "1" }, "win32", true],
+      ["Windows CI", { CI: "true" }, "win32", true],
+      ["Windows VS Code", { TERM_PROGRAM: "vscode" }, "win32", true],
+      ["Windows UTF-8 locale", { LANG: "en_US.UTF-8" }, "win32", true],
+    ];
+
+    for (const [name, env, platform, expected] of cases) {
+      test(name, () => {
+        expect(detectTerminalCapabilities(env, platform).unicode).toBe(
+          expected,
+        );
+      });
+    }
+  });
+
+  describe("colorDepth", () => {
+    const cases: [string, Env, string, TerminalCapabilities["colorDepth"]][] = [
+      ["no TERM", {}, "linux", "none"],
+      ["NO_COLOR", { NO_COLOR: "1", COLORTERM: "truecolor" }, "linux", "none"],
+      ["empty NO_COLOR", { NO_COLOR: "", TERM: "xterm" }, "linux", "16"],
+      ["FORCE_COLOR=0", { FORCE_COLOR: "0", TERM: "xterm" }, "linux", "none"],
+      ["FORCE_COLOR=1", { FORCE_COLOR: "1" }, "linux", "16"],
+      ["FORCE_COLOR=2", { FORCE_COLOR: "2" }, "linux", "256"],
+      ["FORCE_COLOR=3", { FORCE_COLOR: "3" }, "linux", "truecolor"],
+      ["dumb terminal", { TERM: "dumb" }, "linux", "none"],
+      ["COLORTERM truecolor", { COLORTERM: "truecolor" }, "linux", "truecolor"],
+      ["COLORTERM 24bit", { COLORTERM: "24bit" }, "linux", "truecolor"],
+      ["xterm-256color", { TERM: "xterm-256color" }, "linux", "256"],
+      ["xterm", { TERM: "xterm" }, "linux", "16"],
+      ["linux console", { TERM: "linux" }, "linux", "16"],
+      ["iTerm", { TERM_PROGRAM: "iTerm.app" }, "darwin", "truecolor"],
+      ["Apple Terminal", { TERM_PROGRAM: "Apple_Terminal" }, "darwin", "256"],
+      [
+        "GitHub Actions",
+        { CI: "true", GITHUB_ACTIONS: "true" },
+        "linux",
+        "truecolor",
+      ],
+      ["GitLab CI", { CI: "true", GITLAB_CI: "true" }, "linux", "16"],
+      ["unknown CI", { CI: "true", TERM: "xterm" }, "linux", "none"],
+      ["Windows console", {}, "win32", "16"],
+      ["Windows Terminal", { WT_SESSION: "1" }, "win32", "truecolor"],
+    ];
+
+    for (const [name, env, platform, expected] of cases) {
+      test(name, () => {
+        expect(detectTerminalCapabilities(env, platform).colorDepth).toBe(
+          expected,
+        );
+      });
+    }
+  });
+
+  describe("hyperlinks", () => {
+    const cases: [string, Env, string, boolean][] = [
+      ["unknown terminal", { TERM: "xterm" }, "linux", false],
+      ["FORCE_HYPERLINK=1", { FORCE_HYPERLINK: "1" }, "linux", true],
+      [
+        "FORCE_HYPERLINK=0",
+        { FORCE_HYPERLINK: "0", WT_SESSION: "1" },
+        "win32",
+        false,
+      ],
+      ["CI", { CI: "true", TERM_PROGRAM: "vscode" }, "linux", false],
+      ["Windows Terminal", { WT_SESSION: "1" }, "win32", true],
+      ["iTerm", { TERM_PROGRAM: "iTerm.app" }, "darwin", true],
+      ["VS Code", { TERM_PROGRAM: "vscode" }, "linux", true],
+      ["kitty", { TERM: "xterm-kitty" }, "linux", true],
+      ["VTE 0.50", { VTE_VERSION: "5000" }, "linux", true],
+      ["VTE 0.48", { VTE_VERSION: "4800" }, "linux", false],
+    ];
+
+    for (const [name, env, platform, expected] of cases) {
+      test(name, () => {
+        expect(detectTerminalCapabilities(env, platform).hyperlinks).toBe(
+          expected,
+        );
+      });
+    }
+  });
+
+  describe("emojiWidth", () => {
+    const cases: [string, Env, string, 1 | 2][] = [
+      ["modern terminal", { TERM: "xterm-256color" }, "darwin", 2],
+      ["linux console", { TERM: "linux" }, "linux", 1],
+      ["Windows console", {}, "win32", 1],
+      ["Windows Terminal", { WT_SESSION: "1" }, "win32", 2],
+    ];
+
+    for (const [name, env, platform, expected] of cases) {
+      test(name, () => {
+        expect(detectTerminalCapabilities(env, platform).emojiWidth).toBe(
+          expected,
+        );
+      });
+    }
+  });
+});
+
+describe("isUnicodeSupported", () => {
+  test("matches detectTerminalCapabilities", () => {
+    expect(isUnicodeSupported({ LANG: "C" }, "linux")).toBe(false);
+    expect(isUnicodeSupported({ WT_SESSION: "1" }, "win32")).toBe(true);
+  });
+
+  test("reads the legacy platform key", () => {
+    expect(isUnicodeSupported({ platform: "win32" })).toBe(false);
+  });
+});
+
+describe("TerminalCapabilitiesProvider", () => {
+  test("renders ASCII figures without unicode support", () => {
+    const { lastFrame } = render(
+      <TerminalCapabilitiesProvider capabilities={{ unicode: false }}>
+        <StatusMessage variant="success">Deployed</StatusMessage>
+      </TerminalCapabilitiesProvider>,
+    );
+
+    expect(lastFrame()).toBe("√ Deployed");
+  });
+
+  test("detects capabilities from the injected env and platform", () => {
+    const { lastFrame } = render(
+      <TerminalCapabilitiesProvider env={{}} platform="win32">
+        <StatusMessage variant="pending">Installing</StatusMessage>
+      </TerminalCapabilitiesProvider>,
+    );
+
+    expect(lastFrame()).toBe("- Installing");
+  });
+
+  test("renders Unicode figures with unicode support", () => {
+    const { lastFrame } = render(
+      <TerminalCapabilitiesProvider capabilities={{ unicode: true }}>
+        <StatusMessage variant="error">Failed</StatusMessage>
+      </TerminalCapabilitiesProvider>,
+    );
+
+    expect(lastFrame()).toBe("✘ Failed");
+  });
+});